@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import * as config from "../config/config";
+import { OuraClient, getRetryDelay } from "./client";
+import { DATA_TYPES } from "./registry";
+
+const realFetch = globalThis.fetch;
+const tokenEnv = process.env.OURA_ACCESS_TOKEN;
+
+let requests: string[];
+
+// Answer API requests with `handler`, recording each URL
+function stubFetch(handler: (url: URL, init?: RequestInit) => Response | Promise<Response>): void {
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    requests.push(url.pathname + url.search);
+    return handler(url, init);
+  }) as typeof fetch;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+beforeEach(() => {
+  requests = [];
+  process.env.OURA_ACCESS_TOKEN = "token";
+  spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mock.restore();
+  globalThis.fetch = realFetch;
+  process.env.OURA_ACCESS_TOKEN = tokenEnv;
+  if (tokenEnv === undefined) {
+    delete process.env.OURA_ACCESS_TOKEN;
+  }
+});
+
+describe("retries", () => {
+  test("retry a 429 and return the response that follows", async () => {
+    let calls = 0;
+    stubFetch(() => (calls++ === 0 ? json({}, 429, { "Retry-After": "0" }) : json({ id: "s1", day: "2024-01-05" })));
+
+    const client = await OuraClient.create({ validation: "off" });
+    const document: unknown = await client.getById(DATA_TYPES.sleep, "s1");
+    expect(document).toEqual({ id: "s1", day: "2024-01-05" });
+    expect(requests).toHaveLength(2);
+  });
+
+  test("give up after maxRetries and report the last status", async () => {
+    stubFetch(() => json({ detail: "down" }, 503, { "Retry-After": "0" }));
+
+    const client = await OuraClient.create({ validation: "off", maxRetries: 2 });
+    await expect(client.getById(DATA_TYPES.sleep, "s1")).rejects.toThrow("API request failed (503)");
+    expect(requests).toHaveLength(3);
+  });
+
+  test("don't retry other client errors", async () => {
+    stubFetch(() => json({ detail: "missing" }, 404));
+
+    const client = await OuraClient.create({ validation: "off" });
+    await expect(client.getById(DATA_TYPES.sleep, "s1")).rejects.toThrow("API request failed (404)");
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe("getRetryDelay", () => {
+  test("follows Retry-After in seconds or as an HTTP date, capped at a minute", () => {
+    expect(getRetryDelay(0, "3")).toBe(3000);
+    expect(getRetryDelay(0, "600")).toBe(60000);
+
+    const inFive = new Date(Date.now() + 5000).toUTCString();
+    const delay = getRetryDelay(0, inFive);
+    // HTTP dates have whole seconds
+    expect(delay).toBeGreaterThan(3900);
+    expect(delay).toBeLessThanOrEqual(5000);
+    expect(getRetryDelay(0, new Date(Date.now() - 5000).toUTCString())).toBe(0);
+  });
+
+  test("backs off exponentially with jitter otherwise", () => {
+    for (let i = 0; i < 20; i++) {
+      expect(getRetryDelay(0, null)).toBeLessThan(1000);
+      expect(getRetryDelay(3, "soon")).toBeLessThan(8000);
+      expect(getRetryDelay(10, null)).toBeLessThan(60000);
+    }
+  });
+});
+
+describe("concurrency", () => {
+  test("keep the number of requests in flight within the limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    stubFetch(async (url) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await Bun.sleep(5);
+      inFlight--;
+      return json({ id: url.pathname.split("/").at(-1) });
+    });
+
+    const client = await OuraClient.create({ validation: "off", concurrency: 2 });
+    const ids = Array.from({ length: 8 }, (_, i) => `s${i}`);
+    const documents: unknown[] = await Promise.all(ids.map((id) => client.getById(DATA_TYPES.sleep, id)));
+
+    expect(documents).toEqual(ids.map((id) => ({ id })));
+    expect(requests).toHaveLength(8);
+    expect(peak).toBe(2);
+  });
+});
+
+describe("pagination", () => {
+  test("follow next_token and merge the pages", async () => {
+    const pages: Record<string, { data: { id: string }[]; next_token: string | null }> = {
+      "": { data: [{ id: "a" }, { id: "b" }], next_token: "p2" },
+      p2: { data: [], next_token: "p3" },
+      p3: { data: [{ id: "c" }], next_token: null },
+    };
+    stubFetch((url) => json(pages[url.searchParams.get("next_token") ?? ""]));
+
+    const client = await OuraClient.create({ validation: "off" });
+    const response: unknown = await client.list(DATA_TYPES.sleep, "2024-01-01", "2024-01-31");
+
+    expect(response).toEqual({ data: [{ id: "a" }, { id: "b" }, { id: "c" }], next_token: null });
+    expect(requests).toEqual([
+      "/v2/usercollection/daily_sleep?start_date=2024-01-01&end_date=2024-01-31",
+      "/v2/usercollection/daily_sleep?start_date=2024-01-01&end_date=2024-01-31&next_token=p2",
+      "/v2/usercollection/daily_sleep?start_date=2024-01-01&end_date=2024-01-31&next_token=p3",
+    ]);
+  });
+});
+
+describe("token refresh", () => {
+  test("concurrent 401s share one refresh and the new token is saved", async () => {
+    delete process.env.OURA_ACCESS_TOKEN;
+    spyOn(console, "error").mockImplementation(() => {});
+    spyOn(config, "loadConfig").mockResolvedValue({
+      client_id: "client",
+      client_secret: "secret",
+      access_token: "old",
+      refresh_token: "refresh",
+      expiry: new Date(Date.now() + 3600_000).toISOString(),
+      auth_type: "oauth",
+    });
+    const saveConfig = spyOn(config, "saveConfig").mockResolvedValue();
+
+    const authorizations: string[] = [];
+    stubFetch(async (url, init) => {
+      if (url.pathname === "/oauth/token") {
+        // Keep the refresh pending until both requests have been rejected
+        await Bun.sleep(5);
+        return json({ access_token: "new", refresh_token: "refresh2", expires_in: 86400 });
+      }
+      const authorization = new Headers(init?.headers).get("Authorization") ?? "";
+      authorizations.push(authorization);
+      return authorization === "Bearer old" ? json({ detail: "expired" }, 401) : json({ id: "s1" });
+    });
+
+    const client = await OuraClient.create({ validation: "off" });
+    await Promise.all([client.getById(DATA_TYPES.sleep, "s1"), client.getById(DATA_TYPES.sleep, "s1")]);
+
+    expect(requests.filter((request) => request === "/oauth/token")).toHaveLength(1);
+    expect(authorizations).toEqual(["Bearer old", "Bearer old", "Bearer new", "Bearer new"]);
+    expect(saveConfig).toHaveBeenCalledTimes(1);
+    expect(saveConfig.mock.calls[0][0]).toMatchObject({ access_token: "new", refresh_token: "refresh2" });
+  });
+});
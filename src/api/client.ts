@@ -1,56 +1,110 @@
 import { loadConfig, isTokenExpired, type Config } from "../config/config";
-import { refreshAccessToken } from "../auth/oauth";
+import { refreshAccessToken, ENDPOINT_SCOPES } from "../auth/oauth";
+import { Limiter } from "./limiter";
+import { validateResponse, getValidationMode, type ValidationMode } from "./validate";
+import { DATA_TYPES, getRangeParams, getRangeWindows, type DataType } from "./registry";
 import type {
+  DailyActivity,
+  DailyCardiovascularAge,
+  DailyReadiness,
+  DailyResilience,
+  DailySleep,
+  DailyStress,
+  EnhancedTag,
+  HeartRate,
+  ListResponse,
   PersonalInfo,
-  DailySleepResponse,
-  DailyActivityResponse,
-  DailyReadinessResponse,
-  HeartRateResponse,
-  WorkoutResponse,
-  SpO2Response,
-  SleepResponse,
-  SessionResponse,
-  SleepTimeResponse,
-  EnhancedTagResponse,
-  DailyStressResponse,
-  DailyResilienceResponse,
-  DailyCardiovascularAgeResponse,
-  VO2MaxResponse,
-  RingConfigurationResponse,
-  RestModePeriodResponse,
+  RestModePeriod,
+  RingConfiguration,
+  Session,
+  Sleep,
+  SleepTime,
+  SpO2,
+  VO2Max,
+  Workout,
 } from "./types";
 
 const BASE_URL = "https://api.ouraring.com/v2/usercollection/";
+// Same routes, serving fake data for development
+const SANDBOX_BASE_URL = "https://api.ouraring.com/v2/sandbox/usercollection/";
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60 * 1000;
+
+export interface ClientOptions {
+  // Maximum number of requests in flight at once (default: OURA_CONCURRENCY or 4)
+  concurrency?: number;
+  // Retries for 429, 5xx and network errors before giving up
+  maxRetries?: number;
+  // How to treat responses that don't match the schema (default: getValidationMode())
+  validation?: ValidationMode;
+  // Query the sandbox instead of the real account (default: isSandboxMode())
+  sandbox?: boolean;
+}
+
+// Environment chosen with --sandbox for this process, if any
+let sandboxOverride: boolean | undefined;
+
+export function setSandboxMode(enabled: boolean | undefined): void {
+  sandboxOverride = enabled;
+}
+
+/**
+ * Whether requests go to the sandbox: --sandbox, then OURA_SANDBOX=1
+ */
+export function isSandboxMode(): boolean {
+  return sandboxOverride ?? ["1", "true"].includes(process.env.OURA_SANDBOX ?? "");
+}
 
 export class OuraClient {
   private config: Config;
+  private limiter: Limiter;
+  private maxRetries: number;
+  private refreshing: Promise<void> | null = null;
+  private validation: ValidationMode;
+  private reportedDrift = new Set<string>();
+  private baseUrl: string;
 
-  private constructor(config: Config) {
+  private constructor(config: Config, options: ClientOptions) {
     this.config = config;
+    this.limiter = new Limiter(
+      options.concurrency ?? (Number(process.env.OURA_CONCURRENCY) || DEFAULT_CONCURRENCY)
+    );
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.validation = options.validation ?? getValidationMode();
+    this.baseUrl = (options.sandbox ?? isSandboxMode()) ? SANDBOX_BASE_URL : BASE_URL;
   }
 
-  static async create(): Promise<OuraClient> {
+  static async create(options: ClientOptions = {}): Promise<OuraClient> {
     let config = await loadConfig();
 
+    // A static token from the environment takes precedence over saved credentials
+    const envToken = process.env.OURA_ACCESS_TOKEN;
+    if (envToken) {
+      config = { ...config, access_token: envToken, refresh_token: "", auth_type: "token" };
+    }
+
     if (!config.access_token) {
       throw new Error(
         "Not authenticated. Please run 'oura auth' first to authenticate."
       );
     }
 
-    // Refresh token if expired
-    if (isTokenExpired(config)) {
+    // Refresh token if expired. Personal access tokens are never refreshed.
+    if (config.auth_type !== "token" && isTokenExpired(config)) {
       config = await refreshAccessToken(config);
     }
 
-    return new OuraClient(config);
+    return new OuraClient(config, options);
   }
 
-  private async get<T>(
+  private async request<T>(
     endpoint: string,
     params?: Record<string, string>
   ): Promise<T> {
-    const url = new URL(endpoint, BASE_URL);
+    const url = new URL(endpoint, this.baseUrl);
 
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
@@ -60,135 +114,347 @@ export class OuraClient {
       });
     }
 
-    const response = await fetch(url.toString(), {
-      headers: {
-        Authorization: `Bearer ${this.config.access_token}`,
-      },
-    });
+    const token = this.config.access_token;
+    let response = await this.fetchWithRetry(url.toString(), token);
+
+    // The token was revoked or expired mid-session: refresh once and replay
+    if (response.status === 401 && this.config.refresh_token) {
+      await response.body?.cancel();
+      await this.refreshToken(token);
+      response = await this.fetchWithRetry(url.toString(), this.config.access_token);
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`API request failed (${response.status}): ${errorText}`);
+      const hint = response.status === 403 ? this.describeMissingScope(endpoint) : "";
+      throw new Error(`API request failed (${response.status}): ${errorText}${hint}`);
+    }
+
+    const body = await response.json();
+    this.checkSchema(endpoint, body);
+    return body;
+  }
+
+  // Compare a response with the schema: fail in strict mode, otherwise report
+  // the drift once per endpoint and carry on
+  private checkSchema(endpoint: string, body: unknown): void {
+    if (this.validation === "off") {
+      return;
+    }
+
+    const report = validateResponse(endpoint, body);
+    if (!report) {
+      return;
+    }
+
+    if (this.validation === "strict") {
+      throw new Error(`${report}\nRun without --strict to accept responses that drift from the schema.`);
+    }
+
+    const collection = endpoint.split("/")[0];
+    if (!this.reportedDrift.has(collection)) {
+      this.reportedDrift.add(collection);
+      console.warn(report);
+    }
+  }
+
+  // Explain a 403 in terms of the OAuth2 scope the endpoint needs
+  private describeMissingScope(endpoint: string): string {
+    const scope = ENDPOINT_SCOPES[endpoint.split("/")[0]];
+    if (!scope) {
+      return "";
     }
 
-    return response.json();
+    const granted = this.config.scopes;
+    if (granted && !granted.includes(scope)) {
+      return (
+        `\nThis endpoint requires the '${scope}' scope, which was not granted ` +
+        `(granted: ${granted.join(", ")}). Re-run 'oura auth' with --scopes including '${scope}'.`
+      );
+    }
+    return `\nThis endpoint requires the '${scope}' scope. Check that it is enabled for your app and was approved.`;
+  }
+
+  // Send a request through the concurrency limiter, retrying rate limits,
+  // server errors and network failures with exponential backoff
+  private async fetchWithRetry(url: string, token: string): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined;
+      let networkError: unknown;
+
+      try {
+        response = await this.limiter.run(() =>
+          fetch(url, {
+            headers: {
+              Authorization: `Bearer ${token}`,
+            },
+          })
+        );
+      } catch (error) {
+        networkError = error;
+      }
+
+      const retryable = response ? isRetryableStatus(response.status) : true;
+      if (!retryable || attempt >= this.maxRetries) {
+        if (!response) {
+          throw networkError;
+        }
+        return response;
+      }
+
+      const delay = getRetryDelay(attempt, response?.headers.get("retry-after") ?? null);
+      const reason = response ? `HTTP ${response.status}` : "network error";
+      console.warn(
+        `Request to ${new URL(url).pathname} failed (${reason}), retrying in ${(delay / 1000).toFixed(1)}s...`
+      );
+
+      await response?.body?.cancel();
+      await sleep(delay);
+    }
+  }
+
+  // Concurrent callers that hit a 401 share a single refresh, so the refresh
+  // token is only rotated once. A caller whose token was already replaced
+  // simply retries with the new one.
+  private async refreshToken(rejectedToken: string): Promise<void> {
+    if (this.config.access_token !== rejectedToken) {
+      return;
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = refreshAccessToken(this.config)
+        .then((config) => {
+          this.config = config;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+
+    await this.refreshing;
+  }
+
+  /**
+   * Iterate over a collection endpoint page by page, following `next_token`
+   * until the API stops returning one. Each yielded value is one page of data.
+   */
+  async *paginate<T>(
+    endpoint: string,
+    params?: Record<string, string>
+  ): AsyncGenerator<T[], void, undefined> {
+    let nextToken: string | null = null;
+
+    do {
+      const page: ListResponse<T> = await this.request<ListResponse<T>>(endpoint, {
+        ...params,
+        ...(nextToken ? { next_token: nextToken } : {}),
+      });
+      yield page.data ?? [];
+      nextToken = page.next_token || null;
+    } while (nextToken);
+  }
+
+  /**
+   * Iterate over a data type's range page by page. Ranges longer than the API
+   * accepts in one request are fetched window by window.
+   */
+  async *paginateRange<T>(
+    type: DataType<T>,
+    start?: string,
+    end?: string
+  ): AsyncGenerator<T[], void, undefined> {
+    for (const window of getRangeWindows(type, start, end)) {
+      yield* this.paginate<T>(type.endpoint, getRangeParams(type, window.start, window.end));
+    }
   }
 
   // --- API Methods ---
 
   async getPersonalInfo(): Promise<PersonalInfo> {
-    return this.get<PersonalInfo>("personal_info");
+    return this.request<PersonalInfo>("personal_info");
+  }
+
+  /**
+   * Fetch every document of a collection data type in a date range. Without
+   * a range the API applies its default range.
+   */
+  async list<T>(type: DataType<T>, start?: string, end?: string): Promise<ListResponse<T>> {
+    if (!type.dateParams) {
+      throw new Error(`${type.name} is a single document, not a collection.`);
+    }
+    const data: T[] = [];
+    for await (const page of this.paginateRange(type, start, end)) {
+      data.push(...page);
+    }
+    return { data, next_token: null };
+  }
+
+  // Fetch a single document of a data type by its id
+  async getById<T>(type: DataType<T>, id: string): Promise<T> {
+    if (!type.byId) {
+      throw new Error(`${type.name} documents can't be fetched by id.`);
+    }
+    return this.request<T>(`${type.endpoint}/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Fetch a data type: the range of a collection, or the document itself for
+   * single-document endpoints such as personal info
+   */
+  async getData<T>(type: DataType<T>, start?: string, end?: string): Promise<ListResponse<T> | T> {
+    return type.dateParams ? this.list(type, start, end) : this.request<T>(type.endpoint);
+  }
+
+  // --- Typed shortcuts ---
+  // One method per data type, for code that knows which one it wants
+
+  async getDailySleep(start?: string, end?: string): Promise<ListResponse<DailySleep>> {
+    return this.list(DATA_TYPES.sleep, start, end);
+  }
+
+  async getDailyActivity(start?: string, end?: string): Promise<ListResponse<DailyActivity>> {
+    return this.list(DATA_TYPES.activity, start, end);
+  }
+
+  async getDailyReadiness(start?: string, end?: string): Promise<ListResponse<DailyReadiness>> {
+    return this.list(DATA_TYPES.readiness, start, end);
+  }
+
+  async getHeartRate(start?: string, end?: string): Promise<ListResponse<HeartRate>> {
+    return this.list(DATA_TYPES.heartrate, start, end);
+  }
+
+  async getWorkouts(start?: string, end?: string): Promise<ListResponse<Workout>> {
+    return this.list(DATA_TYPES.workout, start, end);
+  }
+
+  async getSpO2(start?: string, end?: string): Promise<ListResponse<SpO2>> {
+    return this.list(DATA_TYPES.spo2, start, end);
+  }
+
+  async getSleep(start?: string, end?: string): Promise<ListResponse<Sleep>> {
+    return this.list(DATA_TYPES.sleep_details, start, end);
   }
 
-  async getDailySleep(start?: string, end?: string): Promise<DailySleepResponse> {
-    return this.get<DailySleepResponse>("daily_sleep", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getSessions(start?: string, end?: string): Promise<ListResponse<Session>> {
+    return this.list(DATA_TYPES.sessions, start, end);
   }
 
-  async getDailyActivity(start?: string, end?: string): Promise<DailyActivityResponse> {
-    return this.get<DailyActivityResponse>("daily_activity", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getSleepTimes(start?: string, end?: string): Promise<ListResponse<SleepTime>> {
+    return this.list(DATA_TYPES.sleep_times, start, end);
   }
 
-  async getDailyReadiness(start?: string, end?: string): Promise<DailyReadinessResponse> {
-    return this.get<DailyReadinessResponse>("daily_readiness", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getEnhancedTags(start?: string, end?: string): Promise<ListResponse<EnhancedTag>> {
+    return this.list(DATA_TYPES.tags, start, end);
   }
 
-  async getHeartRate(start?: string, end?: string): Promise<HeartRateResponse> {
-    return this.get<HeartRateResponse>("heartrate", {
-      start_datetime: start || "",
-      end_datetime: end || "",
-    });
+  async getDailyStress(start?: string, end?: string): Promise<ListResponse<DailyStress>> {
+    return this.list(DATA_TYPES.stress, start, end);
   }
 
-  async getWorkouts(start?: string, end?: string): Promise<WorkoutResponse> {
-    return this.get<WorkoutResponse>("workout", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getDailyResilience(start?: string, end?: string): Promise<ListResponse<DailyResilience>> {
+    return this.list(DATA_TYPES.resilience, start, end);
   }
 
-  async getSpO2(start?: string, end?: string): Promise<SpO2Response> {
-    return this.get<SpO2Response>("daily_spo2", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getCVAge(start?: string, end?: string): Promise<ListResponse<DailyCardiovascularAge>> {
+    return this.list(DATA_TYPES.cv_age, start, end);
   }
 
-  async getSleep(start?: string, end?: string): Promise<SleepResponse> {
-    return this.get<SleepResponse>("sleep", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getVO2Max(start?: string, end?: string): Promise<ListResponse<VO2Max>> {
+    return this.list(DATA_TYPES.vo2_max, start, end);
   }
 
-  async getSessions(start?: string, end?: string): Promise<SessionResponse> {
-    return this.get<SessionResponse>("session", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getRingConfiguration(start?: string, end?: string): Promise<ListResponse<RingConfiguration>> {
+    return this.list(DATA_TYPES.ring_config, start, end);
   }
 
-  async getSleepTimes(start?: string, end?: string): Promise<SleepTimeResponse> {
-    return this.get<SleepTimeResponse>("sleep_time", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getRestModePeriod(start?: string, end?: string): Promise<ListResponse<RestModePeriod>> {
+    return this.list(DATA_TYPES.rest_mode, start, end);
   }
 
-  async getEnhancedTags(start?: string, end?: string): Promise<EnhancedTagResponse> {
-    return this.get<EnhancedTagResponse>("enhanced_tag", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  // Heart rate samples and cardiovascular age have no document id
+
+  async getDailySleepById(id: string): Promise<DailySleep> {
+    return this.getById(DATA_TYPES.sleep, id);
+  }
+
+  async getDailyActivityById(id: string): Promise<DailyActivity> {
+    return this.getById(DATA_TYPES.activity, id);
+  }
+
+  async getDailyReadinessById(id: string): Promise<DailyReadiness> {
+    return this.getById(DATA_TYPES.readiness, id);
+  }
+
+  async getWorkoutById(id: string): Promise<Workout> {
+    return this.getById(DATA_TYPES.workout, id);
+  }
+
+  async getSpO2ById(id: string): Promise<SpO2> {
+    return this.getById(DATA_TYPES.spo2, id);
+  }
+
+  async getSleepById(id: string): Promise<Sleep> {
+    return this.getById(DATA_TYPES.sleep_details, id);
+  }
+
+  async getSessionById(id: string): Promise<Session> {
+    return this.getById(DATA_TYPES.sessions, id);
   }
 
-  async getDailyStress(start?: string, end?: string): Promise<DailyStressResponse> {
-    return this.get<DailyStressResponse>("daily_stress", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getSleepTimeById(id: string): Promise<SleepTime> {
+    return this.getById(DATA_TYPES.sleep_times, id);
   }
 
-  async getDailyResilience(start?: string, end?: string): Promise<DailyResilienceResponse> {
-    return this.get<DailyResilienceResponse>("daily_resilience", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getEnhancedTagById(id: string): Promise<EnhancedTag> {
+    return this.getById(DATA_TYPES.tags, id);
   }
 
-  async getCVAge(start?: string, end?: string): Promise<DailyCardiovascularAgeResponse> {
-    return this.get<DailyCardiovascularAgeResponse>("daily_cardiovascular_age", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getDailyStressById(id: string): Promise<DailyStress> {
+    return this.getById(DATA_TYPES.stress, id);
   }
 
-  async getVO2Max(start?: string, end?: string): Promise<VO2MaxResponse> {
-    return this.get<VO2MaxResponse>("vO2_max", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getDailyResilienceById(id: string): Promise<DailyResilience> {
+    return this.getById(DATA_TYPES.resilience, id);
   }
 
-  async getRingConfiguration(start?: string, end?: string): Promise<RingConfigurationResponse> {
-    return this.get<RingConfigurationResponse>("ring_configuration", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getVO2MaxById(id: string): Promise<VO2Max> {
+    return this.getById(DATA_TYPES.vo2_max, id);
   }
 
-  async getRestModePeriod(start?: string, end?: string): Promise<RestModePeriodResponse> {
-    return this.get<RestModePeriodResponse>("rest_mode_period", {
-      start_date: start || "",
-      end_date: end || "",
-    });
+  async getRingConfigurationById(id: string): Promise<RingConfiguration> {
+    return this.getById(DATA_TYPES.ring_config, id);
   }
+
+  async getRestModePeriodById(id: string): Promise<RestModePeriod> {
+    return this.getById(DATA_TYPES.rest_mode, id);
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay before the next retry: the server's Retry-After if it sent one,
+ * otherwise exponential backoff with full jitter.
+ */
+export function getRetryDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.min(seconds * 1000, RETRY_MAX_DELAY_MS);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.min(Math.max(date - Date.now(), 0), RETRY_MAX_DELAY_MS);
+    }
+  }
+
+  const ceiling = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
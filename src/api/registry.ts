@@ -0,0 +1,342 @@
+import { addDays, formatDay, getToday, splitDayRange, zonedDateTime, type DateRange } from "../utils/dates";
+import type {
+  PersonalInfo,
+  RingConfiguration,
+  DailySleep,
+  Sleep,
+  SleepTime,
+  DailyActivity,
+  Workout,
+  Session,
+  HeartRate,
+  SpO2,
+  DailyCardiovascularAge,
+  VO2Max,
+  DailyReadiness,
+  DailyStress,
+  DailyResilience,
+  RestModePeriod,
+  EnhancedTag,
+} from "./types";
+
+// Every data type the CLI knows about. `oura get`, the interactive explorer,
+// `oura export`, `oura sync`, the local cache and shell completion are all
+// generated from this registry, so adding an endpoint only means adding an
+// entry here (plus its types and schema).
+
+export const DATA_CATEGORIES = {
+  personal: "👤 Personal",
+  sleep: "😴 Sleep",
+  activity: "🏃 Activity",
+  heart: "❤️ Heart & Body",
+  wellness: "🧘 Wellness",
+  other: "🏷️ Other",
+} as const;
+
+export type DataCategory = keyof typeof DATA_CATEGORIES;
+
+// How a collection endpoint takes its range: start_date/end_date days, or
+// start_datetime/end_datetime timestamps
+export type DateParamStyle = "date" | "datetime";
+
+export interface DataType<T = unknown> {
+  // Key in exports; `oura get` uses it with dashes, e.g. sleep_details -> sleep-details
+  key: string;
+  // Path under /v2/usercollection/
+  endpoint: string;
+  name: string;
+  description: string;
+  category: DataCategory;
+  // null for single-document endpoints such as personal_info
+  dateParams: DateParamStyle | null;
+  // Longest range the API accepts in one request, in days; longer ranges are
+  // split into several requests
+  maxRangeDays?: number;
+  // Whether documents can be fetched individually by id
+  byId: boolean;
+  // False for documents about the account or ring rather than a day; exports
+  // keep them at the top level instead of grouping them by day
+  timeSeries: boolean;
+  // Day a document belongs to (YYYY-MM-DD), or null if it has none
+  dateKey(item: T): string | null;
+}
+
+function defineDataType<T>(type: DataType<T>): DataType<T> {
+  return type;
+}
+
+// Timestamps are ISO 8601; their date part is the day
+function dayOf(timestamp: string | null | undefined): string | null {
+  return timestamp ? timestamp.split("T")[0] : null;
+}
+
+// Day an instant falls on in the configured timezone, for timestamps the API
+// returns in UTC
+function localDayOf(timestamp: string | null | undefined): string | null {
+  return timestamp ? formatDay(new Date(timestamp)) : null;
+}
+
+export const DATA_TYPES = {
+  personal: defineDataType<PersonalInfo>({
+    key: "personal",
+    endpoint: "personal_info",
+    name: "Personal Info",
+    description: "Your profile information (age, weight, email)",
+    category: "personal",
+    dateParams: null,
+    byId: false,
+    timeSeries: false,
+    dateKey: () => null,
+  }),
+  ring_config: defineDataType<RingConfiguration>({
+    key: "ring_config",
+    endpoint: "ring_configuration",
+    name: "Ring Configuration",
+    description: "Ring hardware info and settings",
+    category: "personal",
+    dateParams: "date",
+    byId: true,
+    timeSeries: false,
+    dateKey: (item) => dayOf(item.set_up_at),
+  }),
+  sleep: defineDataType<DailySleep>({
+    key: "sleep",
+    endpoint: "daily_sleep",
+    name: "Daily Sleep",
+    description: "Daily sleep summary with scores",
+    category: "sleep",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  sleep_details: defineDataType<Sleep>({
+    key: "sleep_details",
+    endpoint: "sleep",
+    name: "Sleep Details",
+    description: "Detailed sleep sessions and stages",
+    category: "sleep",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  sleep_times: defineDataType<SleepTime>({
+    key: "sleep_times",
+    endpoint: "sleep_time",
+    name: "Optimal Bedtime",
+    description: "Recommended bedtime guidance",
+    category: "sleep",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  activity: defineDataType<DailyActivity>({
+    key: "activity",
+    endpoint: "daily_activity",
+    name: "Daily Activity",
+    description: "Steps, calories, and movement data",
+    category: "activity",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  workout: defineDataType<Workout>({
+    key: "workout",
+    endpoint: "workout",
+    name: "Workouts",
+    description: "Recorded workout sessions",
+    category: "activity",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  sessions: defineDataType<Session>({
+    key: "sessions",
+    endpoint: "session",
+    name: "Sessions",
+    description: "Activity and meditation sessions",
+    category: "activity",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  heartrate: defineDataType<HeartRate>({
+    key: "heartrate",
+    endpoint: "heartrate",
+    name: "Heart Rate",
+    description: "Heart rate time series data",
+    category: "heart",
+    dateParams: "datetime",
+    maxRangeDays: 30,
+    byId: false,
+    timeSeries: true,
+    dateKey: (item) => localDayOf(item.timestamp),
+  }),
+  spo2: defineDataType<SpO2>({
+    key: "spo2",
+    endpoint: "daily_spo2",
+    name: "Blood Oxygen (SpO2)",
+    description: "Blood oxygen saturation levels",
+    category: "heart",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  cv_age: defineDataType<DailyCardiovascularAge>({
+    key: "cv_age",
+    endpoint: "daily_cardiovascular_age",
+    name: "Cardiovascular Age",
+    description: "Estimated cardiovascular age",
+    category: "heart",
+    dateParams: "date",
+    byId: false,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  vo2_max: defineDataType<VO2Max>({
+    key: "vo2_max",
+    endpoint: "vO2_max",
+    name: "VO2 Max",
+    description: "VO2 max fitness estimate",
+    category: "heart",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  readiness: defineDataType<DailyReadiness>({
+    key: "readiness",
+    endpoint: "daily_readiness",
+    name: "Readiness",
+    description: "Daily readiness score and contributors",
+    category: "wellness",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  stress: defineDataType<DailyStress>({
+    key: "stress",
+    endpoint: "daily_stress",
+    name: "Stress",
+    description: "Daily stress levels",
+    category: "wellness",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  resilience: defineDataType<DailyResilience>({
+    key: "resilience",
+    endpoint: "daily_resilience",
+    name: "Resilience",
+    description: "Daily resilience data",
+    category: "wellness",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.day,
+  }),
+  rest_mode: defineDataType<RestModePeriod>({
+    key: "rest_mode",
+    endpoint: "rest_mode_period",
+    name: "Rest Mode",
+    description: "Rest mode periods",
+    category: "wellness",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.start_day,
+  }),
+  tags: defineDataType<EnhancedTag>({
+    key: "tags",
+    endpoint: "enhanced_tag",
+    name: "Tags",
+    description: "Enhanced tags you've added",
+    category: "other",
+    dateParams: "date",
+    byId: true,
+    timeSeries: true,
+    dateKey: (item) => item.start_day,
+  }),
+};
+
+export type DataTypeKey = keyof typeof DATA_TYPES;
+
+export const ALL_DATA_TYPES: DataType[] = Object.values(DATA_TYPES);
+
+// Data types served by collection endpoints, i.e. everything that can be
+// listed by date range, synced and cached
+export const COLLECTION_DATA_TYPES: DataType[] = ALL_DATA_TYPES.filter((type) => type.dateParams);
+
+/**
+ * The `oura get` subcommand of a data type, e.g. "sleep-details"
+ */
+export function getCommandName(type: DataType): string {
+  return type.key.replace(/_/g, "-");
+}
+
+export function getDataTypeByCommand(name: string): DataType | undefined {
+  return ALL_DATA_TYPES.find((type) => getCommandName(type) === name);
+}
+
+export function getDataTypeByEndpoint(endpoint: string): DataType | undefined {
+  return ALL_DATA_TYPES.find((type) => type.endpoint === endpoint);
+}
+
+/**
+ * Query parameters selecting a range of a collection endpoint. Empty values
+ * are dropped by the client, leaving the API's default range. Datetime
+ * endpoints given plain days get whole local days, from midnight of `start`
+ * to midnight after `end`.
+ */
+export function getRangeParams(type: DataType, start?: string, end?: string): Record<string, string> {
+  if (type.dateParams !== "datetime") {
+    return { start_date: start || "", end_date: end || "" };
+  }
+  const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return {
+    start_datetime: start ? (isDay(start) ? zonedDateTime(start) : start) : "",
+    end_datetime: end ? (isDay(end) ? zonedDateTime(addDays(end, 1)) : end) : "",
+  };
+}
+
+/**
+ * Split a range into consecutive windows no longer than the data type's
+ * `maxRangeDays`. Ranges without a start are left to the API.
+ */
+export function getRangeWindows(type: DataType, start?: string, end?: string): DateRange[] {
+  if (!type.maxRangeDays || !start) {
+    return [{ start, end }];
+  }
+  if (type.dateParams === "date") {
+    return splitDayRange(start, end || getToday(), type.maxRangeDays);
+  }
+
+  const params = getRangeParams(type, start, end);
+  const from = Date.parse(params.start_datetime);
+  const to = end ? Date.parse(params.end_datetime) : Date.now();
+  const size = type.maxRangeDays * 24 * 60 * 60 * 1000;
+
+  // Inner windows end a second before the next one starts, so a sample on
+  // the boundary isn't fetched twice
+  const windows: DateRange[] = [];
+  for (let windowStart = from; windowStart < to; windowStart += size) {
+    const last = windowStart + size >= to;
+    windows.push({
+      start: windowStart === from ? params.start_datetime : toIsoSeconds(windowStart),
+      end: last ? end && params.end_datetime : toIsoSeconds(windowStart + size - 1000),
+    });
+  }
+  return windows.length > 0 ? windows : [{ start, end }];
+}
+
+function toIsoSeconds(instant: number): string {
+  return new Date(instant).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
@@ -0,0 +1,307 @@
+import type {
+  ActivityContributors,
+  DailyActivity,
+  DailyCardiovascularAge,
+  DailyReadiness,
+  DailyResilience,
+  DailySleep,
+  DailyStress,
+  EnhancedTag,
+  HeartRate,
+  PersonalInfo,
+  ReadinessContributors,
+  RestModePeriod,
+  RingConfiguration,
+  SampleModel,
+  Session,
+  Sleep,
+  SleepContributors,
+  SleepTime,
+  SpO2,
+  VO2Max,
+  Workout,
+} from "./types";
+
+// Runtime field layouts mirroring the interfaces in types.ts. Responses are
+// validated against them, and their field order drives column order for
+// tabular output. Each one `satisfies` the ShapeOf its interface, so tsc
+// fails when a field is added, removed or retyped on only one side.
+
+type Scalar = "string" | "number" | "boolean" | "array";
+// A trailing "?" marks a nullable field
+export type FieldType = Scalar | `${Scalar}?`;
+
+export interface Shape {
+  [field: string]: FieldType | Shape;
+}
+
+type ScalarOf<V> = V extends string
+  ? "string"
+  : V extends number
+    ? "number"
+    : V extends boolean
+      ? "boolean"
+      : V extends readonly unknown[]
+        ? "array"
+        : never;
+
+// Nested objects get a shape of their own, nullable or not
+type FieldOf<V> = NonNullable<V> extends string | number | boolean | readonly unknown[]
+  ? null extends V
+    ? `${ScalarOf<NonNullable<V>>}?`
+    : ScalarOf<V>
+  : ShapeOf<NonNullable<V>>;
+
+/**
+ * The shape matching an interface field for field
+ */
+export type ShapeOf<T> = { [K in keyof T]-?: FieldOf<T[K]> };
+
+const SAMPLE = {
+  interval: "number",
+  items: "array",
+  timestamp: "string",
+} satisfies ShapeOf<SampleModel>;
+
+const SLEEP_CONTRIBUTORS = {
+  deep_sleep: "number?",
+  efficiency: "number?",
+  latency: "number?",
+  rem_sleep: "number?",
+  restfulness: "number?",
+  timing: "number?",
+  total_sleep: "number?",
+} satisfies ShapeOf<SleepContributors>;
+
+const ACTIVITY_CONTRIBUTORS = {
+  meet_daily_targets: "number?",
+  move_every_hour: "number?",
+  recovery_time: "number?",
+  stay_active: "number?",
+  training_frequency: "number?",
+  training_volume: "number?",
+} satisfies ShapeOf<ActivityContributors>;
+
+const READINESS_CONTRIBUTORS = {
+  activity_balance: "number?",
+  body_temperature: "number?",
+  hrv_balance: "number?",
+  previous_day_activity: "number?",
+  previous_night: "number?",
+  recovery_index: "number?",
+  resting_heart_rate: "number?",
+  sleep_balance: "number?",
+} satisfies ShapeOf<ReadinessContributors>;
+
+export const SCHEMAS: Record<string, Shape> = {
+  personal_info: {
+    id: "string",
+    age: "number?",
+    weight: "number?",
+    height: "number?",
+    biological_sex: "string?",
+    email: "string?",
+  } satisfies ShapeOf<PersonalInfo>,
+  daily_sleep: {
+    id: "string",
+    contributors: SLEEP_CONTRIBUTORS,
+    day: "string",
+    score: "number?",
+    timestamp: "string",
+  } satisfies ShapeOf<DailySleep>,
+  daily_activity: {
+    id: "string",
+    class_5_min: "string?",
+    score: "number?",
+    active_calories: "number",
+    average_met_minutes: "number",
+    contributors: ACTIVITY_CONTRIBUTORS,
+    equivalent_walking_distance: "number",
+    high_activity_met_minutes: "number",
+    high_activity_time: "number",
+    inactivity_alerts: "number",
+    low_activity_met_minutes: "number",
+    low_activity_time: "number",
+    medium_activity_met_minutes: "number",
+    medium_activity_time: "number",
+    met: SAMPLE,
+    meters_to_target: "number",
+    non_wear_time: "number",
+    resting_time: "number",
+    sedentary_met_minutes: "number",
+    sedentary_time: "number",
+    steps: "number",
+    target_calories: "number",
+    target_meters: "number",
+    total_calories: "number",
+    day: "string",
+    timestamp: "string",
+  } satisfies ShapeOf<DailyActivity>,
+  daily_readiness: {
+    id: "string",
+    contributors: READINESS_CONTRIBUTORS,
+    day: "string",
+    score: "number?",
+    temperature_deviation: "number?",
+    temperature_trend_deviation: "number?",
+    timestamp: "string",
+  } satisfies ShapeOf<DailyReadiness>,
+  heartrate: {
+    bpm: "number",
+    source: "string",
+    timestamp: "string",
+  } satisfies ShapeOf<HeartRate>,
+  workout: {
+    id: "string",
+    activity: "string",
+    calories: "number?",
+    day: "string",
+    distance: "number?",
+    end_datetime: "string",
+    intensity: "string",
+    label: "string?",
+    source: "string",
+    start_datetime: "string",
+  } satisfies ShapeOf<Workout>,
+  daily_spo2: {
+    id: "string",
+    day: "string",
+    spo2_percentage: {
+      average: "number",
+    },
+    breathing_disturbance_index: "number?",
+  } satisfies ShapeOf<SpO2>,
+  sleep: {
+    id: "string",
+    average_breath: "number?",
+    average_heart_rate: "number?",
+    average_hrv: "number?",
+    awake_time: "number?",
+    bedtime_end: "string",
+    bedtime_start: "string",
+    day: "string",
+    deep_sleep_duration: "number?",
+    efficiency: "number?",
+    heart_rate: SAMPLE,
+    hrv: SAMPLE,
+    latency: "number?",
+    light_sleep_duration: "number?",
+    low_battery_alert: "boolean",
+    lowest_heart_rate: "number?",
+    movement_30_sec: "string?",
+    period: "number",
+    readiness: {
+      contributors: READINESS_CONTRIBUTORS,
+      score: "number?",
+      temperature_deviation: "number?",
+      temperature_trend_deviation: "number?",
+    },
+    readiness_score_delta: "number?",
+    rem_sleep_duration: "number?",
+    restless_periods: "number?",
+    sleep_phase_5_min: "string?",
+    sleep_score_delta: "number?",
+    sleep_algorithm_version: "string?",
+    time_in_bed: "number",
+    total_sleep_duration: "number?",
+    type: "string",
+  } satisfies ShapeOf<Sleep>,
+  session: {
+    id: "string",
+    day: "string",
+    start_datetime: "string",
+    end_datetime: "string",
+    type: "string",
+    heart_rate: SAMPLE,
+    heart_rate_variability: SAMPLE,
+    mood: "string?",
+    motion_count: SAMPLE,
+  } satisfies ShapeOf<Session>,
+  sleep_time: {
+    id: "string",
+    day: "string",
+    optimal_bedtime: {
+      day_tz: "number",
+      end_offset: "number",
+      start_offset: "number",
+    },
+    recommendation: "string?",
+    status: "string?",
+  } satisfies ShapeOf<SleepTime>,
+  enhanced_tag: {
+    id: "string",
+    tag_type_code: "string?",
+    start_time: "string",
+    end_time: "string?",
+    start_day: "string",
+    end_day: "string?",
+    comment: "string?",
+    custom_name: "string?",
+  } satisfies ShapeOf<EnhancedTag>,
+  daily_stress: {
+    id: "string",
+    day: "string",
+    stress_high: "number?",
+    recovery_high: "number?",
+    day_summary: "string?",
+  } satisfies ShapeOf<DailyStress>,
+  daily_resilience: {
+    id: "string",
+    day: "string",
+    level: "string",
+    contributors: {
+      sleep_recovery: "number",
+      daytime_recovery: "number",
+      stress: "number",
+    },
+  } satisfies ShapeOf<DailyResilience>,
+  daily_cardiovascular_age: {
+    day: "string",
+    vascular_age: "number?",
+  } satisfies ShapeOf<DailyCardiovascularAge>,
+  vO2_max: {
+    id: "string",
+    day: "string",
+    timestamp: "string",
+    vo2_max: "number?",
+  } satisfies ShapeOf<VO2Max>,
+  ring_configuration: {
+    id: "string",
+    color: "string?",
+    design: "string?",
+    firmware_version: "string?",
+    hardware_type: "string?",
+    set_up_at: "string?",
+    size: "number?",
+  } satisfies ShapeOf<RingConfiguration>,
+  rest_mode_period: {
+    id: "string",
+    end_day: "string?",
+    end_time: "string?",
+    episodes: "array",
+    start_day: "string",
+    start_time: "string?",
+  } satisfies ShapeOf<RestModePeriod>,
+};
+
+/**
+ * Dotted names of the numeric fields of a shape, in declaration order
+ */
+export function numericColumns(shape: Shape, prefix = ""): string[] {
+  return Object.entries(shape).flatMap(([field, type]) =>
+    typeof type === "string"
+      ? type.startsWith("number") ? [`${prefix}${field}`] : []
+      : numericColumns(type, `${prefix}${field}.`)
+  );
+}
+
+/**
+ * Flatten a shape into dotted column names, in declaration order
+ */
+export function shapeColumns(shape: Shape, prefix = ""): string[] {
+  return Object.entries(shape).flatMap(([field, type]) =>
+    typeof type === "string"
+      ? [`${prefix}${field}`]
+      : shapeColumns(type, `${prefix}${field}.`)
+  );
+}
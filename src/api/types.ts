@@ -1,81 +1,164 @@
-// Oura API Types - TypeScript equivalents of Go structs
+// Oura API v2 Types - mirror the response models of the v2 usercollection API
+
+// --- Pagination ---
+// Every collection endpoint wraps its items in this envelope. A non-null
+// next_token means more pages are available.
+export interface ListResponse<T> {
+  data: T[];
+  next_token: string | null;
+}
+
+// --- Shared ---
+// A regularly sampled time series: items[i] was recorded at
+// timestamp + i * interval seconds. Gaps in the recording are null.
+export interface SampleModel {
+  interval: number;
+  items: Array<number | null>;
+  timestamp: string;
+}
 
 // --- Personal Info ---
 export interface PersonalInfo {
   id: string;
-  age: number;
-  weight: number;
-  height: number;
-  gender: string;
-  email: string;
+  age: number | null;
+  weight: number | null; // kg
+  height: number | null; // m
+  biological_sex: string | null;
+  email: string | null;
 }
 
 // --- Daily Sleep ---
+// Contributor values are 1-100 scores
+export interface SleepContributors {
+  deep_sleep: number | null;
+  efficiency: number | null;
+  latency: number | null;
+  rem_sleep: number | null;
+  restfulness: number | null;
+  timing: number | null;
+  total_sleep: number | null;
+}
+
 export interface DailySleep {
   id: string;
+  contributors: SleepContributors;
   day: string;
-  score: number;
+  score: number | null;
   timestamp: string;
 }
 
 export interface DailySleepResponse {
   data: DailySleep[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Daily Activity ---
+export interface ActivityContributors {
+  meet_daily_targets: number | null;
+  move_every_hour: number | null;
+  recovery_time: number | null;
+  stay_active: number | null;
+  training_frequency: number | null;
+  training_volume: number | null;
+}
+
 export interface DailyActivity {
   id: string;
-  day: string;
-  score: number;
+  // One character per 5 minutes: 0 non-wear, 1 rest, 2 inactive, 3 low, 4 medium, 5 high
+  class_5_min: string | null;
+  score: number | null;
+  active_calories: number;
+  average_met_minutes: number;
+  contributors: ActivityContributors;
+  equivalent_walking_distance: number; // m
+  high_activity_met_minutes: number;
+  high_activity_time: number; // s
+  inactivity_alerts: number;
+  low_activity_met_minutes: number;
+  low_activity_time: number; // s
+  medium_activity_met_minutes: number;
+  medium_activity_time: number; // s
+  met: SampleModel;
+  meters_to_target: number;
+  non_wear_time: number; // s
+  resting_time: number; // s
+  sedentary_met_minutes: number;
+  sedentary_time: number; // s
   steps: number;
+  target_calories: number;
+  target_meters: number;
+  total_calories: number;
+  day: string;
+  timestamp: string;
 }
 
 export interface DailyActivityResponse {
   data: DailyActivity[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Daily Readiness ---
+export interface ReadinessContributors {
+  activity_balance: number | null;
+  body_temperature: number | null;
+  hrv_balance: number | null;
+  previous_day_activity: number | null;
+  previous_night: number | null;
+  recovery_index: number | null;
+  resting_heart_rate: number | null;
+  sleep_balance: number | null;
+}
+
 export interface DailyReadiness {
   id: string;
+  contributors: ReadinessContributors;
   day: string;
-  score: number;
+  score: number | null;
+  temperature_deviation: number | null; // °C
+  temperature_trend_deviation: number | null; // °C
+  timestamp: string;
 }
 
 export interface DailyReadinessResponse {
   data: DailyReadiness[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Heart Rate ---
+export type HeartRateSource = "awake" | "rest" | "sleep" | "session" | "live" | "workout";
+
+// Heart rate samples have no id; the timestamp identifies them
 export interface HeartRate {
-  id: string;
   bpm: number;
-  source: string;
+  source: HeartRateSource;
   timestamp: string;
 }
 
 export interface HeartRateResponse {
   data: HeartRate[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Workout ---
+export type WorkoutIntensity = "easy" | "moderate" | "hard";
+export type WorkoutSource = "manual" | "autodetected" | "confirmed" | "workout_heart_rate";
+
 export interface Workout {
   id: string;
   activity: string;
-  calories: number;
+  calories: number | null;
   day: string;
-  distance: number;
+  distance: number | null; // m
   end_datetime: string;
+  intensity: WorkoutIntensity;
+  label: string | null;
+  source: WorkoutSource;
   start_datetime: string;
-  label: string;
 }
 
 export interface WorkoutResponse {
   data: Workout[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- SpO2 ---
@@ -84,162 +167,289 @@ export interface SpO2 {
   day: string;
   spo2_percentage: {
     average: number;
-  };
+  } | null;
+  breathing_disturbance_index: number | null;
 }
 
 export interface SpO2Response {
   data: SpO2[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Sleep (Detailed) ---
+export type SleepType = "deleted" | "sleep" | "long_sleep" | "late_nap" | "rest";
+export type SleepAlgorithmVersion = "v1" | "v2";
+
+// Readiness as computed at the end of a sleep period
+export interface ReadinessSummary {
+  contributors: ReadinessContributors;
+  score: number | null;
+  temperature_deviation: number | null;
+  temperature_trend_deviation: number | null;
+}
+
+// Durations are in seconds
 export interface Sleep {
   id: string;
-  day: string;
-  score: number;
-  efficiency: number;
-  type: string;
-  bedtime_start: string;
+  average_breath: number | null;
+  average_heart_rate: number | null;
+  average_hrv: number | null;
+  awake_time: number | null;
   bedtime_end: string;
-  hypnogram_5min: string;
+  bedtime_start: string;
+  day: string;
+  deep_sleep_duration: number | null;
+  efficiency: number | null;
+  heart_rate: SampleModel | null;
+  hrv: SampleModel | null;
+  latency: number | null;
+  light_sleep_duration: number | null;
+  low_battery_alert: boolean;
+  lowest_heart_rate: number | null;
+  // One character per 30 seconds: 1 no motion ... 4 restless
+  movement_30_sec: string | null;
+  period: number;
+  readiness: ReadinessSummary | null;
+  readiness_score_delta: number | null;
+  rem_sleep_duration: number | null;
+  restless_periods: number | null;
+  // One character per 5 minutes: 1 deep, 2 light, 3 REM, 4 awake
+  sleep_phase_5_min: string | null;
+  sleep_score_delta: number | null;
+  sleep_algorithm_version: SleepAlgorithmVersion | null;
+  time_in_bed: number;
+  total_sleep_duration: number | null;
+  type: SleepType;
 }
 
 export interface SleepResponse {
   data: Sleep[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Session ---
+export type SessionType =
+  | "breathing"
+  | "meditation"
+  | "nap"
+  | "relaxation"
+  | "rest"
+  | "body_status";
+export type SessionMood = "bad" | "worse" | "same" | "good" | "great";
+
 export interface Session {
   id: string;
   day: string;
   start_datetime: string;
   end_datetime: string;
-  type: string;
-  status: string;
-  motion_count: number;
+  type: SessionType;
+  heart_rate: SampleModel | null;
+  heart_rate_variability: SampleModel | null;
+  mood: SessionMood | null;
+  motion_count: SampleModel | null;
 }
 
 export interface SessionResponse {
   data: Session[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Sleep Time ---
+export type SleepTimeRecommendation =
+  | "improve_efficiency"
+  | "earlier_bedtime"
+  | "later_bedtime"
+  | "earlier_wake_up_time"
+  | "later_wake_up_time"
+  | "follow_optimal_bedtime";
+export type SleepTimeStatus =
+  | "not_enough_nights"
+  | "not_enough_recent_nights"
+  | "bad_sleep_quality"
+  | "only_recommended_found"
+  | "optimal_found";
+
 export interface SleepTime {
   id: string;
   day: string;
+  // Offsets are seconds relative to midnight of `day` in the user's timezone
   optimal_bedtime: {
     day_tz: number;
     end_offset: number;
     start_offset: number;
-    status: string;
-  };
-  recommendation: string;
+  } | null;
+  recommendation: SleepTimeRecommendation | null;
+  status: SleepTimeStatus | null;
 }
 
 export interface SleepTimeResponse {
   data: SleepTime[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Enhanced Tag ---
 export interface EnhancedTag {
   id: string;
-  tag_type_code: string;
+  tag_type_code: string | null;
   start_time: string;
-  end_time: string;
-  comment: string;
+  end_time: string | null;
+  start_day: string;
+  end_day: string | null;
+  comment: string | null;
+  // Set when tag_type_code is "custom"
+  custom_name: string | null;
 }
 
 export interface EnhancedTagResponse {
   data: EnhancedTag[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Daily Stress ---
+export type DailyStressSummary = "restored" | "normal" | "stressful";
+
 export interface DailyStress {
   id: string;
   day: string;
-  stress_high: number;
-  recovery_high: number;
-  day_summary: string;
+  stress_high: number | null; // s
+  recovery_high: number | null; // s
+  day_summary: DailyStressSummary | null;
 }
 
 export interface DailyStressResponse {
   data: DailyStress[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Daily Resilience ---
+export type ResilienceLevel = "limited" | "adequate" | "solid" | "strong" | "exceptional";
+
+export interface ResilienceContributors {
+  sleep_recovery: number;
+  daytime_recovery: number;
+  stress: number;
+}
+
 export interface DailyResilience {
   id: string;
   day: string;
-  level: string;
-  contributors: {
-    sleep_recovery: number;
-    daytime_recovery: number;
-    stress: number;
-  };
+  level: ResilienceLevel;
+  contributors: ResilienceContributors;
 }
 
 export interface DailyResilienceResponse {
   data: DailyResilience[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Daily Cardiovascular Age ---
+// One value per day, so the day identifies it
 export interface DailyCardiovascularAge {
-  id: string;
   day: string;
-  vascular_age_range: number;
+  vascular_age: number | null;
 }
 
 export interface DailyCardiovascularAgeResponse {
   data: DailyCardiovascularAge[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- VO2 Max ---
 export interface VO2Max {
   id: string;
   day: string;
-  vo2_max: number;
+  timestamp: string;
+  vo2_max: number | null;
 }
 
 export interface VO2MaxResponse {
   data: VO2Max[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Ring Configuration ---
+export type RingColor =
+  | "brushed_silver"
+  | "glossy_black"
+  | "glossy_gold"
+  | "glossy_white"
+  | "gucci"
+  | "matt_gold"
+  | "rose"
+  | "silver"
+  | "stealth_black"
+  | "titanium"
+  | "titanium_and_gold";
+export type RingDesign = "balance" | "balance_diamond" | "heritage" | "horizon";
+export type RingHardwareType = "gen1" | "gen2" | "gen2m" | "gen3" | "gen4";
+
 export interface RingConfiguration {
   id: string;
-  color: string;
-  design: string;
-  firmware_version: string;
-  hardware_type: string;
-  size: number;
+  color: RingColor | null;
+  design: RingDesign | null;
+  firmware_version: string | null;
+  hardware_type: RingHardwareType | null;
+  set_up_at: string | null;
+  size: number | null;
 }
 
 export interface RingConfigurationResponse {
   data: RingConfiguration[];
-  next_token: string;
+  next_token: string | null;
 }
 
 // --- Rest Mode Period ---
+export interface RestModeEpisode {
+  tags: string[];
+  timestamp: string;
+}
+
 export interface RestModePeriod {
   id: string;
-  day: string;
-  end_day: string;
+  end_day: string | null;
+  end_time: string | null;
+  episodes: RestModeEpisode[];
   start_day: string;
-  start_time: string;
-  end_time: string;
+  start_time: string | null;
 }
 
 export interface RestModePeriodResponse {
   data: RestModePeriod[];
-  next_token: string;
+  next_token: string | null;
+}
+
+// --- Webhook Subscriptions ---
+export type WebhookEventType = "create" | "update" | "delete";
+export type WebhookDataType =
+  | "enhanced_tag"
+  | "workout"
+  | "session"
+  | "sleep"
+  | "daily_sleep"
+  | "daily_readiness"
+  | "daily_activity"
+  | "daily_spo2"
+  | "sleep_time"
+  | "rest_mode_period"
+  | "ring_configuration"
+  | "daily_stress";
+
+export interface WebhookSubscription {
+  id: string;
+  callback_url: string;
+  event_type: WebhookEventType;
+  data_type: WebhookDataType;
+  expiration_time: string;
+}
+
+// Body of a notification posted to the callback URL. The changed document
+// itself has to be fetched by object_id.
+export interface WebhookEvent {
+  event_type: WebhookEventType;
+  data_type: WebhookDataType;
+  object_id: string;
+  event_time: string;
+  user_id: string;
 }
 
 // --- OAuth Token Response ---
@@ -248,4 +458,5 @@ export interface TokenResponse {
   refresh_token: string;
   expires_in: number;
   token_type: string;
+  scope?: string;
 }
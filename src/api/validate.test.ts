@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { getValidationMode, setValidationMode, validateResponse, validateShape } from "./validate";
+
+const SLEEP = {
+  id: "s1",
+  contributors: {
+    deep_sleep: 80,
+    efficiency: 90,
+    latency: null,
+    rem_sleep: 70,
+    restfulness: 60,
+    timing: 50,
+    total_sleep: 85,
+  },
+  day: "2024-01-05",
+  score: 82,
+  timestamp: "2024-01-05T00:00:00+00:00",
+};
+
+const validationEnv = process.env.OURA_VALIDATION;
+
+beforeEach(() => {
+  delete process.env.OURA_VALIDATION;
+});
+
+afterEach(() => {
+  setValidationMode(undefined);
+  process.env.OURA_VALIDATION = validationEnv;
+  if (validationEnv === undefined) {
+    delete process.env.OURA_VALIDATION;
+  }
+});
+
+describe("validateShape", () => {
+  test("accepts a matching document, with nullable fields and nested objects null", () => {
+    const shape = { id: "string", score: "number?", readiness: { score: "number?" } } as const;
+    expect(validateShape({ id: "s1", score: 80, readiness: { score: 75 } }, shape)).toEqual([]);
+    expect(validateShape({ id: "s1", score: null, readiness: null }, shape)).toEqual([]);
+  });
+
+  test("lists missing, extra and mistyped fields", () => {
+    expect(validateShape({ id: 1, extra: true }, { id: "string", day: "string" })).toEqual([
+      { kind: "mistyped", path: "id", detail: "expected string, got number" },
+      { kind: "missing", path: "day" },
+      { kind: "extra", path: "extra" },
+    ]);
+    expect(validateShape({ score: "high" }, { score: "number?" })).toEqual([
+      { kind: "mistyped", path: "score", detail: "expected number or null, got string" },
+    ]);
+    expect(validateShape([], { id: "string" })).toEqual([
+      { kind: "mistyped", path: "(root)", detail: "expected object, got array" },
+    ]);
+  });
+});
+
+describe("validateResponse", () => {
+  test("passes documents that match the schema", () => {
+    expect(validateResponse("daily_sleep", { data: [SLEEP], next_token: null })).toBeNull();
+    expect(validateResponse("daily_sleep/s1", SLEEP)).toBeNull();
+    expect(validateResponse("not_an_endpoint", { anything: true })).toBeNull();
+  });
+
+  test("counts each issue across the records of a collection", () => {
+    const { score: _, ...withoutScore } = SLEEP;
+    const report = validateResponse("daily_sleep", {
+      data: [SLEEP, { ...withoutScore, mood: "good" }, withoutScore],
+      next_token: null,
+    });
+    expect(report).toBe(
+      [
+        "Schema drift in daily_sleep (2 of 3 records):",
+        "  extra     mood (1)",
+        "  missing   score (2)",
+      ].join("\n")
+    );
+  });
+});
+
+describe("getValidationMode", () => {
+  test("prefers --strict, then OURA_VALIDATION, then warn", () => {
+    expect(getValidationMode()).toBe("warn");
+    process.env.OURA_VALIDATION = "off";
+    expect(getValidationMode()).toBe("off");
+    process.env.OURA_VALIDATION = "loud";
+    expect(getValidationMode()).toBe("warn");
+    setValidationMode("strict");
+    expect(getValidationMode()).toBe("strict");
+  });
+});
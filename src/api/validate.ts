@@ -0,0 +1,128 @@
+import { SCHEMAS, type Shape } from "./schema";
+
+export const VALIDATION_MODES = ["off", "warn", "strict"] as const;
+export type ValidationMode = (typeof VALIDATION_MODES)[number];
+
+export interface DriftIssue {
+  kind: "missing" | "extra" | "mistyped";
+  path: string;
+  detail?: string;
+}
+
+// Mode chosen with --strict for this process, if any
+let validationModeOverride: ValidationMode | undefined;
+
+export function setValidationMode(mode: ValidationMode | undefined): void {
+  validationModeOverride = mode;
+}
+
+/**
+ * Resolve the validation mode: --strict, then OURA_VALIDATION, then "warn"
+ */
+export function getValidationMode(): ValidationMode {
+  if (validationModeOverride) {
+    return validationModeOverride;
+  }
+  const env = process.env.OURA_VALIDATION as ValidationMode | undefined;
+  return env && VALIDATION_MODES.includes(env) ? env : "warn";
+}
+
+/**
+ * Compare a value against a shape and list every missing, extra or
+ * mistyped field. Nested objects may be null.
+ */
+export function validateShape(value: unknown, shape: Shape, prefix = ""): DriftIssue[] {
+  if (!isObject(value)) {
+    return [{ kind: "mistyped", path: prefix || "(root)", detail: `expected object, got ${typeOf(value)}` }];
+  }
+
+  const issues: DriftIssue[] = [];
+
+  for (const [field, type] of Object.entries(shape)) {
+    const path = `${prefix}${field}`;
+    const fieldValue = value[field];
+
+    if (fieldValue === undefined) {
+      issues.push({ kind: "missing", path });
+    } else if (typeof type !== "string") {
+      if (fieldValue !== null) {
+        issues.push(...validateShape(fieldValue, type, `${path}.`));
+      }
+    } else {
+      const nullable = type.endsWith("?");
+      const expected = nullable ? type.slice(0, -1) : type;
+      const actual = typeOf(fieldValue);
+      if (actual !== expected && !(nullable && actual === "null")) {
+        const wanted = nullable ? `${expected} or null` : expected;
+        issues.push({ kind: "mistyped", path, detail: `expected ${wanted}, got ${actual}` });
+      }
+    }
+  }
+
+  for (const field of Object.keys(value)) {
+    if (!(field in shape)) {
+      issues.push({ kind: "extra", path: `${prefix}${field}` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Validate an API response body for an endpoint. Collection responses are
+ * checked record by record; single documents as-is. Returns a report, or
+ * null when everything matches (or the endpoint has no schema).
+ */
+export function validateResponse(endpoint: string, body: unknown): string | null {
+  const collection = endpoint.split("/")[0];
+  const shape = SCHEMAS[collection];
+  if (!shape) {
+    return null;
+  }
+
+  const records = isObject(body) && Array.isArray(body.data) ? body.data : [body];
+  const counts = new Map<string, { issue: DriftIssue; count: number }>();
+  let driftedRecords = 0;
+
+  for (const record of records) {
+    const issues = validateShape(record, shape);
+    if (issues.length > 0) {
+      driftedRecords++;
+    }
+    for (const issue of issues) {
+      const key = `${issue.kind}:${issue.path}:${issue.detail ?? ""}`;
+      const entry = counts.get(key) ?? { issue, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+
+  if (counts.size === 0) {
+    return null;
+  }
+
+  const lines = [...counts.values()]
+    .sort((a, b) => a.issue.kind.localeCompare(b.issue.kind) || a.issue.path.localeCompare(b.issue.path))
+    .map(({ issue, count }) =>
+      `  ${issue.kind.padEnd(9)} ${issue.path}${issue.detail ? `: ${issue.detail}` : ""} (${count})`
+    );
+
+  return [
+    `Schema drift in ${collection} (${driftedRecords} of ${records.length} records):`,
+    ...lines,
+  ].join("\n");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
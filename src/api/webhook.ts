@@ -0,0 +1,116 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { loadConfig } from "../config/config";
+import type {
+  WebhookSubscription,
+  WebhookEventType,
+  WebhookDataType,
+} from "./types";
+
+const WEBHOOK_URL = "https://api.ouraring.com/v2/webhook/subscription";
+
+export const WEBHOOK_EVENT_TYPES = ["create", "update", "delete"] as const satisfies readonly WebhookEventType[];
+
+export const WEBHOOK_DATA_TYPES = [
+  "enhanced_tag",
+  "workout",
+  "session",
+  "sleep",
+  "daily_sleep",
+  "daily_readiness",
+  "daily_activity",
+  "daily_spo2",
+  "sleep_time",
+  "rest_mode_period",
+  "ring_configuration",
+  "daily_stress",
+] as const satisfies readonly WebhookDataType[];
+
+export interface SubscriptionRequest {
+  callback_url: string;
+  // Echoed back by Oura when it verifies the callback URL
+  verification_token: string;
+  event_type: WebhookEventType;
+  data_type: WebhookDataType;
+}
+
+/**
+ * Manages webhook subscriptions. Unlike the data endpoints, these are
+ * authenticated with the app's client credentials rather than a user token.
+ */
+export class WebhookClient {
+  private clientId: string;
+  private clientSecret: string;
+
+  private constructor(clientId: string, clientSecret: string) {
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+  }
+
+  static async create(): Promise<WebhookClient> {
+    const config = await loadConfig();
+    const clientId = process.env.OURA_CLIENT_ID || config.client_id;
+    const clientSecret = process.env.OURA_CLIENT_SECRET || config.client_secret;
+
+    if (!clientId || !clientSecret) {
+      throw new Error(
+        "Webhooks need your app's client credentials. Run 'oura auth' first, " +
+          "or set OURA_CLIENT_ID and OURA_CLIENT_SECRET."
+      );
+    }
+
+    return new WebhookClient(clientId, clientSecret);
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.request<WebhookSubscription[]>("GET", "");
+  }
+
+  async createSubscription(subscription: SubscriptionRequest): Promise<WebhookSubscription> {
+    return this.request<WebhookSubscription>("POST", "", subscription);
+  }
+
+  // Subscriptions expire; renewing pushes expiration_time forward
+  async renewSubscription(id: string): Promise<WebhookSubscription> {
+    return this.request<WebhookSubscription>("PUT", `/renew/${encodeURIComponent(id)}`);
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await this.request<void>("DELETE", `/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Check the x-oura-signature header of a notification: an HMAC-SHA256 of
+   * the x-oura-timestamp header followed by the raw body, keyed with the
+   * client secret.
+   */
+  verifySignature(body: string, timestamp: string, signature: string): boolean {
+    const expected = createHmac("sha256", this.clientSecret)
+      .update(timestamp + body)
+      .digest("hex");
+    const actual = Buffer.from(signature.toLowerCase(), "utf-8");
+    return actual.length === expected.length && timingSafeEqual(actual, Buffer.from(expected, "utf-8"));
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(WEBHOOK_URL + path, {
+      method,
+      headers: {
+        "x-client-id": this.clientId,
+        "x-client-secret": this.clientSecret,
+        ...(body ? { "Content-Type": "application/json" } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Webhook request failed (${response.status}): ${errorText}`);
+    }
+
+    // DELETE answers 204 No Content
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { parseAuthorizationResponse, parseScopes, revokeToken } from "./oauth";
+
+describe("parseAuthorizationResponse", () => {
+  test("takes the code from a redirect URL of this login attempt", () => {
+    const url = "http://localhost:8080/callback?code=abc123&state=s1";
+    expect(parseAuthorizationResponse(url, "s1")).toBe("abc123");
+  });
+
+  test("accepts a bare code as-is", () => {
+    expect(parseAuthorizationResponse("abc123", "s1")).toBe("abc123");
+  });
+
+  test("rejects another attempt's state, OAuth errors and URLs without a code", () => {
+    expect(() => parseAuthorizationResponse("http://localhost:8080/callback?code=abc&state=other", "s1"))
+      .toThrow("state mismatch");
+    expect(() => parseAuthorizationResponse("http://localhost:8080/callback?error=access_denied&state=s1", "s1"))
+      .toThrow("OAuth error: access_denied");
+    expect(() => parseAuthorizationResponse("http://localhost:8080/callback?state=s1", "s1"))
+      .toThrow("does not contain an authorization code");
+  });
+});
+
+describe("parseScopes", () => {
+  test("splits on commas and spaces and rejects unknown scopes", () => {
+    expect(parseScopes("daily, heartrate personal")).toEqual(["daily", "heartrate", "personal"]);
+    expect(() => parseScopes("daily,steps")).toThrow("Unknown scope(s): steps.");
+    expect(() => parseScopes(" , ")).toThrow("At least one scope is required.");
+  });
+});
+
+describe("revokeToken", () => {
+  let server: Server<undefined>;
+  let revoked: string[];
+
+  beforeEach(() => {
+    revoked = [];
+    // Stand-in for the revoke endpoint: accepts "good" tokens only
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        const token = new URL(request.url).searchParams.get("access_token") ?? "";
+        if (token !== "good") {
+          return new Response("invalid_token", { status: 400 });
+        }
+        revoked.push(token);
+        return new Response(null, { status: 200 });
+      },
+    });
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  test("sends the access token to the revoke endpoint", async () => {
+    await revokeToken("good", `http://localhost:${server.port}/oauth/revoke`);
+    expect(revoked).toEqual(["good"]);
+  });
+
+  test("reports the status and body of a failed revocation", async () => {
+    await expect(revokeToken("expired", `http://localhost:${server.port}/oauth/revoke`))
+      .rejects.toThrow("Failed to revoke token (400): invalid_token");
+    expect(revoked).toEqual([]);
+  });
+});
@@ -1,13 +1,17 @@
 import { createServer, type Server } from "http";
+import { randomBytes, createHash } from "crypto";
 import open from "open";
+import { input } from "@inquirer/prompts";
 import { Config, saveConfig, loadConfig } from "../config/config";
 import type { TokenResponse } from "../api/types";
 
 const AUTH_URL = "https://cloud.ouraring.com/oauth/authorize";
 const TOKEN_URL = "https://api.ouraring.com/oauth/token";
-const REDIRECT_URI = "http://localhost:8080/callback";
+const REVOKE_URL = "https://api.ouraring.com/oauth/revoke";
+export const DEFAULT_REDIRECT_URI = "http://localhost:8080/callback";
+const PERSONAL_INFO_URL = "https://api.ouraring.com/v2/usercollection/personal_info";
 
-const SCOPES = [
+export const SCOPES = [
   "email",
   "personal",
   "daily",
@@ -22,24 +26,177 @@ const SCOPES = [
   "heart_health",
 ];
 
+// Scope each collection endpoint needs, used to explain 403 responses
+export const ENDPOINT_SCOPES: Record<string, string> = {
+  personal_info: "personal",
+  daily_sleep: "daily",
+  daily_activity: "daily",
+  daily_readiness: "daily",
+  sleep: "daily",
+  sleep_time: "daily",
+  rest_mode_period: "daily",
+  heartrate: "heartrate",
+  workout: "workout",
+  session: "session",
+  enhanced_tag: "tag",
+  daily_spo2: "spo2",
+  daily_stress: "stress",
+  daily_resilience: "stress",
+  daily_cardiovascular_age: "heart_health",
+  vO2_max: "heart_health",
+  ring_configuration: "ring_configuration",
+};
+
+export interface AuthOptions {
+  // Open a browser and listen for the redirect (default). When false, the
+  // user pastes the redirected URL or code back into the terminal instead.
+  browser?: boolean;
+  // Must match a redirect URI registered for the app (default: saved or DEFAULT_REDIRECT_URI)
+  redirectUri?: string;
+  // Scopes to request (default: saved scopes or all of SCOPES)
+  scopes?: string[];
+}
+
+/**
+ * Parse a comma- or space-separated scope list, rejecting unknown scopes
+ */
+export function parseScopes(value: string): string[] {
+  const scopes = value.split(/[\s,]+/).filter(Boolean);
+  const unknown = scopes.filter((scope) => !SCOPES.includes(scope));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown scope(s): ${unknown.join(", ")}. Valid scopes are: ${SCOPES.join(", ")}`
+    );
+  }
+  if (scopes.length === 0) {
+    throw new Error("At least one scope is required.");
+  }
+  return scopes;
+}
+
 export async function authenticate(
   clientId: string,
-  clientSecret: string
+  clientSecret: string,
+  options: AuthOptions = {}
 ): Promise<void> {
   console.log("Starting OAuth2 authentication flow...");
 
+  const existing = await loadConfig();
+  const redirectUri = options.redirectUri || existing.redirect_uri || DEFAULT_REDIRECT_URI;
+  const scopes = options.scopes || existing.scopes || SCOPES;
+
+  // `state` ties the callback to this run (CSRF protection); PKCE binds the
+  // authorization code to this process so an intercepted code is useless
+  const state = randomBytes(16).toString("base64url");
+  const codeVerifier = randomBytes(32).toString("base64url");
+  const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+
   // Build authorization URL
   const authParams = new URLSearchParams({
     response_type: "code",
     client_id: clientId,
-    redirect_uri: REDIRECT_URI,
-    scope: SCOPES.join(" "),
+    redirect_uri: redirectUri,
+    scope: scopes.join(" "),
+    state,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
   });
 
   const authUrl = `${AUTH_URL}?${authParams.toString()}`;
 
-  // Create a promise that resolves when we receive the callback
-  const authCode = await new Promise<string>((resolve, reject) => {
+  const authCode =
+    options.browser === false
+      ? await promptForCode(authUrl, state)
+      : await waitForCallback(authUrl, new URL(redirectUri), state);
+
+  console.log("Received authorization code, exchanging for tokens...");
+
+  // Exchange code for tokens
+  const tokenResponse = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: authCode,
+      redirect_uri: redirectUri,
+      client_id: clientId,
+      client_secret: clientSecret,
+      code_verifier: codeVerifier,
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    const errorText = await tokenResponse.text();
+    throw new Error(`Failed to exchange code for tokens: ${errorText}`);
+  }
+
+  const tokens: TokenResponse = await tokenResponse.json();
+
+  // Calculate expiry time
+  const expiry = new Date(Date.now() + tokens.expires_in * 1000).toISOString();
+
+  // Save to config
+  const config: Config = {
+    client_id: clientId,
+    client_secret: clientSecret,
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    expiry,
+    auth_type: "oauth",
+    redirect_uri: redirectUri,
+    // The token response lists the granted scopes when the user narrowed them
+    scopes: tokens.scope ? tokens.scope.split(" ") : scopes,
+  };
+
+  await saveConfig(config);
+  console.log("\nAuthentication successful! Tokens saved to config.");
+}
+
+/**
+ * Store a personal access token. These are static bearer tokens: they have
+ * no refresh token and are never passed to refreshAccessToken.
+ */
+export async function saveAccessToken(token: string): Promise<void> {
+  // Check the token works before saving it
+  const response = await fetch(PERSONAL_INFO_URL, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Token was rejected (${response.status}): ${errorText}`);
+  }
+
+  const existing = await loadConfig();
+  await saveConfig({
+    ...existing,
+    access_token: token,
+    refresh_token: "",
+    expiry: "",
+    auth_type: "token",
+  });
+  console.log("\nAccess token verified and saved to config.");
+}
+
+// Start a local server and wait for the OAuth redirect to deliver the code.
+// Stray requests (other paths, wrong state) are answered and ignored; only a
+// callback carrying our state ends the flow. The server only listens on the
+// redirect URI's host, e.g. loopback for localhost, not the whole network.
+function waitForCallback(authUrl: string, redirectUrl: URL, state: string): Promise<string> {
+  if (redirectUrl.protocol !== "http:") {
+    return Promise.reject(
+      new Error(
+        `The local callback server only speaks http, so it can't receive '${redirectUrl.href}'. ` +
+          "Use an http://localhost redirect URI, or --no-browser to paste the redirected URL instead."
+      )
+    );
+  }
+  const port = Number(redirectUrl.port) || 80;
+  const host = redirectUrl.hostname.replace(/^\[(.*)\]$/, "$1");
+
+  return new Promise<string>((resolve, reject) => {
     let server: Server;
 
     const timeoutId = setTimeout(() => {
@@ -47,48 +204,60 @@ export async function authenticate(
       reject(new Error("Authentication timed out after 5 minutes"));
     }, 5 * 60 * 1000);
 
+    const finish = () => {
+      clearTimeout(timeoutId);
+      server.close();
+    };
+
     server = createServer((req, res) => {
       const url = new URL(req.url || "", `http://${req.headers.host}`);
 
-      if (url.pathname === "/callback") {
-        const code = url.searchParams.get("code");
-        const error = url.searchParams.get("error");
-
-        if (error) {
-          res.writeHead(400, { "Content-Type": "text/html" });
-          res.end(`
-            <html>
-              <body style="font-family: sans-serif; text-align: center; padding-top: 50px;">
-                <h1>Authentication Failed</h1>
-                <p>Error: ${error}</p>
-                <p>You can close this window.</p>
-              </body>
-            </html>
-          `);
-          clearTimeout(timeoutId);
-          server.close();
-          reject(new Error(`OAuth error: ${error}`));
-          return;
-        }
-
-        if (code) {
-          res.writeHead(200, { "Content-Type": "text/html" });
-          res.end(`
-            <html>
-              <body style="font-family: sans-serif; text-align: center; padding-top: 50px;">
-                <h1>Authentication Successful!</h1>
-                <p>You can close this window and return to the terminal.</p>
-              </body>
-            </html>
-          `);
-          clearTimeout(timeoutId);
-          server.close();
-          resolve(code);
-        }
+      if (url.pathname !== redirectUrl.pathname) {
+        res.writeHead(404, { "Content-Type": "text/plain" });
+        res.end("Not found");
+        return;
+      }
+
+      if (url.searchParams.get("state") !== state) {
+        res.writeHead(400, { "Content-Type": "text/html" });
+        res.end(
+          renderPage(
+            "Invalid Request",
+            "This callback does not match the current login attempt and was ignored."
+          )
+        );
+        return;
+      }
+
+      const code = url.searchParams.get("code");
+      const error = url.searchParams.get("error");
+
+      if (error) {
+        res.writeHead(400, { "Content-Type": "text/html" });
+        res.end(renderPage("Authentication Failed", `Error: ${error}`, "You can close this window."));
+        finish();
+        reject(new Error(`OAuth error: ${error}`));
+        return;
+      }
+
+      if (!code) {
+        res.writeHead(400, { "Content-Type": "text/html" });
+        res.end(renderPage("Invalid Request", "The callback did not include an authorization code."));
+        return;
       }
+
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(
+        renderPage(
+          "Authentication Successful!",
+          "You can close this window and return to the terminal."
+        )
+      );
+      finish();
+      resolve(code);
     });
 
-    server.listen(8080, () => {
+    server.listen(port, host, () => {
       console.log("\nOpening browser for authentication...");
       console.log(`If the browser doesn't open, visit:\n${authUrl}\n`);
       open(authUrl).catch(() => {
@@ -102,7 +271,15 @@ export async function authenticate(
       if (err.code === "EADDRINUSE") {
         reject(
           new Error(
-            "Port 8080 is already in use. Please close other applications using this port."
+            `Port ${port} is already in use. Close the application using it, or choose ` +
+              "another port with --port (it must match a redirect URI registered for your app)."
+          )
+        );
+      } else if (["EADDRNOTAVAIL", "EINVAL", "ENOTFOUND"].includes(err.code ?? "")) {
+        reject(
+          new Error(
+            `The redirect URI's host '${host}' is not an address of this machine. ` +
+              "Use --no-browser to paste the redirected URL instead."
           )
         );
       } else {
@@ -110,49 +287,73 @@ export async function authenticate(
       }
     });
   });
+}
 
-  console.log("Received authorization code, exchanging for tokens...");
+function renderPage(title: string, ...paragraphs: string[]): string {
+  return `
+    <html>
+      <body style="font-family: sans-serif; text-align: center; padding-top: 50px;">
+        <h1>${escapeHtml(title)}</h1>
+        ${paragraphs.map((text) => `<p>${escapeHtml(text)}</p>`).join("\n        ")}
+      </body>
+    </html>
+  `;
+}
 
-  // Exchange code for tokens
-  const tokenResponse = await fetch(TOKEN_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams({
-      grant_type: "authorization_code",
-      code: authCode,
-      redirect_uri: REDIRECT_URI,
-      client_id: clientId,
-      client_secret: clientSecret,
-    }),
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Headless flow: the user opens the URL anywhere and pastes the result back
+async function promptForCode(authUrl: string, state: string): Promise<string> {
+  console.log("\nOpen this URL in any browser and approve access:");
+  console.log(`${authUrl}\n`);
+  console.log(
+    "You will be redirected to a page that may fail to load. Copy the full URL\n" +
+      "from the address bar (or just the 'code' parameter) and paste it below.\n"
+  );
+
+  const pasted = await input({
+    message: "Redirected URL or code:",
+    validate: (value) => (value.trim() ? true : "Please paste the URL or code"),
   });
 
-  if (!tokenResponse.ok) {
-    const errorText = await tokenResponse.text();
-    throw new Error(`Failed to exchange code for tokens: ${errorText}`);
-  }
+  return parseAuthorizationResponse(pasted.trim(), state);
+}
 
-  const tokens: TokenResponse = await tokenResponse.json();
+/**
+ * Extract the authorization code from a pasted redirect URL, or accept a
+ * bare code as-is. A pasted URL must carry the state of this login attempt.
+ */
+export function parseAuthorizationResponse(pasted: string, state: string): string {
+  if (!/^https?:\/\//.test(pasted)) {
+    return pasted;
+  }
 
-  // Calculate expiry time
-  const expiry = new Date(Date.now() + tokens.expires_in * 1000).toISOString();
+  const url = new URL(pasted);
+  if (url.searchParams.get("state") !== state) {
+    throw new Error("The pasted URL belongs to a different login attempt (state mismatch).");
+  }
 
-  // Save to config
-  const config: Config = {
-    client_id: clientId,
-    client_secret: clientSecret,
-    access_token: tokens.access_token,
-    refresh_token: tokens.refresh_token,
-    expiry,
-  };
+  const error = url.searchParams.get("error");
+  if (error) {
+    throw new Error(`OAuth error: ${error}`);
+  }
 
-  await saveConfig(config);
-  console.log("\nAuthentication successful! Tokens saved to config.");
+  const code = url.searchParams.get("code");
+  if (!code) {
+    throw new Error("The pasted URL does not contain an authorization code.");
+  }
+  return code;
 }
 
 export async function refreshAccessToken(config: Config): Promise<Config> {
-  console.log("Refreshing access token...");
+  console.error("Refreshing access token...");
 
   const tokenResponse = await fetch(TOKEN_URL, {
     method: "POST",
@@ -188,7 +389,23 @@ export async function refreshAccessToken(config: Config): Promise<Config> {
   };
 
   await saveConfig(newConfig);
-  console.log("Token refreshed successfully.");
+  console.error("Token refreshed successfully.");
 
   return newConfig;
 }
+
+/**
+ * Revoke an access token so it can no longer be used, even if a copy of it
+ * survives somewhere. The URL can be pointed at a local stand-in for testing.
+ */
+export async function revokeToken(accessToken: string, revokeUrl: string = REVOKE_URL): Promise<void> {
+  const url = new URL(revokeUrl);
+  url.searchParams.set("access_token", accessToken);
+
+  const response = await fetch(url.toString());
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to revoke token (${response.status}): ${errorText}`);
+  }
+}
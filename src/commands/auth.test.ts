@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+const CLI = path.join(import.meta.dir, "..", "index.ts");
+
+let home: string;
+let configDir: string;
+
+beforeEach(async () => {
+  home = await fs.mkdtemp(path.join(os.tmpdir(), "oura-auth-"));
+  configDir = path.join(home, ".config", "oura-cli");
+  await fs.mkdir(path.join(configDir, "cache"), { recursive: true });
+  // A config from before profiles, with its secrets inline
+  await fs.writeFile(
+    path.join(configDir, "config.json"),
+    JSON.stringify({
+      client_id: "client",
+      client_secret: "secret",
+      access_token: "access",
+      refresh_token: "refresh",
+      expiry: "2030-01-01T00:00:00.000Z",
+    })
+  );
+  await fs.writeFile(path.join(configDir, "cache", "default.sqlite"), "");
+});
+
+afterEach(async () => {
+  await fs.rm(home, { recursive: true, force: true });
+});
+
+// Run the CLI against the temporary home, without the caller's Oura settings
+async function runCli(args: string[], extraEnv: Record<string, string> = {}): Promise<{ exitCode: number; stdout: string }> {
+  const env: Record<string, string | undefined> = { ...process.env, HOME: home };
+  for (const name of ["OURA_ACCESS_TOKEN", "OURA_PROFILE", "OURA_CLIENT_ID", "OURA_CLIENT_SECRET"]) {
+    delete env[name];
+  }
+  const child = Bun.spawn(["bun", CLI, ...args], { env: { ...env, ...extraEnv }, stdin: "ignore", stdout: "pipe", stderr: "pipe" });
+  const stdout = await new Response(child.stdout).text();
+  return { exitCode: await child.exited, stdout };
+}
+
+async function readJson(file: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(path.join(configDir, file), "utf-8"));
+}
+
+describe("oura auth logout", () => {
+  test("wipes the tokens, client credentials and cache of the profile", async () => {
+    const { exitCode, stdout } = await runCli(["auth", "logout", "--no-revoke"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Logged out of profile 'default'.");
+
+    expect(await readJson("config.json")).toEqual({
+      default_profile: "default",
+      secret_store: "file",
+      profiles: { default: { client_id: "", expiry: "" } },
+    });
+    expect(await readJson("secrets.json")).toEqual({
+      default: { client_secret: "", access_token: "", refresh_token: "" },
+    });
+    expect(await fs.readdir(path.join(configDir, "cache"))).toEqual([]);
+  });
+
+  test("keeps the client credentials and cache when asked to", async () => {
+    const { exitCode } = await runCli(["auth", "logout", "--no-revoke", "--keep-credentials", "--keep-cache"]);
+    expect(exitCode).toBe(0);
+
+    expect(await readJson("config.json")).toMatchObject({ profiles: { default: { client_id: "client" } } });
+    expect(await readJson("secrets.json")).toEqual({
+      default: { client_secret: "secret", access_token: "", refresh_token: "" },
+    });
+    expect(await fs.readdir(path.join(configDir, "cache"))).toEqual(["default.sqlite"]);
+  });
+});
+
+describe("oura auth --secret-store", () => {
+  test("moves the secrets and exits without logging in", async () => {
+    // stdin is closed, so any login prompt would fail the command
+    const { exitCode, stdout } = await runCli(["auth", "--secret-store", "encrypted"], { OURA_CONFIG_KEY: "passphrase" });
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("now kept in the encrypted store");
+
+    expect((await fs.readdir(configDir)).sort()).toEqual(["cache", "config.json", "secrets.enc"]);
+    expect(await readJson("config.json")).toMatchObject({ secret_store: "encrypted" });
+  });
+});
@@ -1,8 +1,24 @@
-import { Command } from "commander";
+import { Command, Option, InvalidArgumentError } from "commander";
 import { input, password, confirm } from "@inquirer/prompts";
 import chalk from "chalk";
-import { authenticate } from "../auth/oauth";
-import { loadConfig, getConfigPath } from "../config/config";
+import {
+  authenticate,
+  saveAccessToken,
+  revokeToken,
+  parseScopes,
+  DEFAULT_REDIRECT_URI,
+} from "../auth/oauth";
+import {
+  loadConfig,
+  saveConfig,
+  getConfigPath,
+  getActiveProfile,
+  getSecretStore,
+  setSecretStore,
+  isTokenExpired,
+} from "../config/config";
+import { getFileMode, SECRET_STORE_KINDS } from "../config/secrets";
+import { removeStore } from "../store/store";
 
 const DEVELOPER_PORTAL_URL = "https://developer.ouraring.com";
 
@@ -11,11 +27,50 @@ export function createAuthCommand(): Command {
     .description("Authenticate with Oura Ring API via OAuth2")
     .option("--client-id <id>", "OAuth2 Client ID")
     .option("--client-secret <secret>", "OAuth2 Client Secret")
+    .option("--token <token>", "Save a Personal Access Token instead of using OAuth2")
+    .option("--no-browser", "Don't open a browser; paste the redirected URL or code instead")
+    .addOption(
+      new Option("--port <port>", "Local port for the OAuth2 callback (default: 8080)")
+        .argParser(parsePort)
+        .conflicts("redirectUri")
+    )
+    .option("--redirect-uri <uri>", "OAuth2 redirect URI registered for your app", parseRedirectUri)
+    .option("--scopes <scopes>", "Comma-separated scopes to request (default: all)", parseScopesOption)
+    .addOption(
+      new Option("--secret-store <kind>", "Where to keep secrets and tokens (moves existing ones)")
+        .choices(SECRET_STORE_KINDS)
+    )
     .action(async (options) => {
       try {
+        if (options.secretStore) {
+          await setSecretStore(options.secretStore);
+          // Switching stores on its own doesn't log in again
+          if (!requestsLogin(options)) {
+            const store = await getSecretStore();
+            console.log(chalk.green(`✓ Secrets and tokens are now kept in the ${store.kind} store at:`));
+            console.log(chalk.cyan(`  ${store.path}`));
+            return;
+          }
+        }
+
+        // Personal Access Tokens skip the OAuth2 flow entirely
+        if (options.token) {
+          await saveAccessToken(options.token);
+          console.log("\n" + chalk.green.bold("✓ Authentication complete!\n"));
+          console.log(chalk.dim(`Your token for profile '${await getActiveProfile()}' is saved at:`));
+          console.log(chalk.cyan(`  ${(await getSecretStore()).path}\n`));
+          return;
+        }
+
         // Load existing config to check for saved credentials
         const existingConfig = await loadConfig();
-        const configPath = getConfigPath();
+        const secretStore = await getSecretStore();
+        const profile = await getActiveProfile();
+        const redirectUri: string =
+          options.redirectUri ||
+          (options.port ? `http://localhost:${options.port}/callback` : "") ||
+          existingConfig.redirect_uri ||
+          DEFAULT_REDIRECT_URI;
 
         // Get credentials from options, environment variables, or existing config
         let clientId =
@@ -43,7 +98,7 @@ export function createAuthCommand(): Command {
               "1. Sign in or create a developer account\n" +
                 "2. Create a new application\n" +
                 "3. Set the redirect URI to: " +
-                chalk.yellow("http://localhost:8080/callback") +
+                chalk.yellow(redirectUri) +
                 "\n" +
                 "4. Copy your Client ID and Client Secret\n"
             )
@@ -122,12 +177,18 @@ export function createAuthCommand(): Command {
         }
 
         // Start authentication
-        await authenticate(clientId, clientSecret);
+        await authenticate(clientId, clientSecret, {
+          browser: options.browser,
+          redirectUri,
+          scopes: options.scopes,
+        });
 
         // Show where credentials are saved
         console.log("\n" + chalk.green.bold("✓ Authentication complete!\n"));
-        console.log(chalk.dim("Your credentials and tokens are saved at:"));
-        console.log(chalk.cyan(`  ${configPath}\n`));
+        console.log(chalk.dim(`Your settings for profile '${profile}' are saved at:`));
+        console.log(chalk.cyan(`  ${getConfigPath()}`));
+        console.log(chalk.dim(`and your secrets and tokens (${secretStore.kind}) at:`));
+        console.log(chalk.cyan(`  ${secretStore.path}\n`));
         console.log(
           chalk.dim(
             "To update your credentials in the future, run " +
@@ -149,9 +210,161 @@ export function createAuthCommand(): Command {
       }
     });
 
+  // status - Show where credentials live and whether they're usable
+  authCommand
+    .command("status")
+    .description("Show authentication status without revealing secrets")
+    .action(async () => {
+      try {
+        await printAuthStatus();
+      } catch (error) {
+        console.error(
+          chalk.red("Error:"),
+          error instanceof Error ? error.message : error
+        );
+        process.exit(1);
+      }
+    });
+
+  // logout - Revoke the token and wipe it from the active profile
+  authCommand
+    .command("logout")
+    .description("Revoke the access token and remove it from the active profile")
+    .option("--keep-credentials", "Keep the client ID and secret for the next login")
+    .option("--keep-cache", "Keep the profile's offline cache")
+    .option("--no-revoke", "Only clear local tokens, without calling the revocation endpoint")
+    .action(async (options: LogoutOptions) => {
+      try {
+        await logout(options);
+      } catch (error) {
+        console.error(
+          chalk.red("Logout failed:"),
+          error instanceof Error ? error.message : error
+        );
+        process.exit(1);
+      }
+    });
+
   return authCommand;
 }
 
+// Whether any option besides --secret-store asks for a login
+function requestsLogin(options: Record<string, unknown>): boolean {
+  return (
+    ["clientId", "clientSecret", "token", "port", "redirectUri", "scopes"].some((name) => options[name] !== undefined) ||
+    options.browser === false
+  );
+}
+
+interface LogoutOptions {
+  keepCredentials?: boolean;
+  keepCache?: boolean;
+  revoke: boolean;
+}
+
+async function logout(options: LogoutOptions): Promise<void> {
+  const profile = await getActiveProfile();
+  const config = await loadConfig();
+
+  // Personal access tokens can only be revoked from the Oura web app
+  if (options.revoke && config.access_token && config.auth_type !== "token") {
+    try {
+      await revokeToken(config.access_token);
+      console.log(chalk.dim("Access token revoked."));
+    } catch (error) {
+      // Still wipe local state: a stale token on disk is worse than a warning
+      console.warn(
+        chalk.yellow(`Warning: ${error instanceof Error ? error.message : error}`)
+      );
+    }
+  }
+
+  await saveConfig({
+    ...config,
+    client_id: options.keepCredentials ? config.client_id : "",
+    client_secret: options.keepCredentials ? config.client_secret : "",
+    access_token: "",
+    refresh_token: "",
+    expiry: "",
+    auth_type: undefined,
+  });
+
+  if (!options.keepCache) {
+    await removeStore(profile);
+  }
+
+  console.log(chalk.green(`✓ Logged out of profile '${profile}'.`));
+  if (options.keepCredentials) {
+    console.log(chalk.dim("Client credentials were kept. Run 'oura auth' to log in again."));
+  }
+  if (process.env.OURA_ACCESS_TOKEN) {
+    console.log(chalk.yellow("Note: OURA_ACCESS_TOKEN is still set in this environment."));
+  }
+}
+
+async function printAuthStatus(): Promise<void> {
+  const profile = await getActiveProfile();
+  const config = await loadConfig();
+  const store = await getSecretStore();
+  const envToken = process.env.OURA_ACCESS_TOKEN;
+
+  const row = (label: string, value: string) =>
+    console.log(`${chalk.dim(label.padEnd(16))}${value}`);
+
+  console.log(chalk.cyan.bold(`\n🔐 Authentication status\n`));
+  row("Profile", profile);
+
+  if (envToken) {
+    row("Auth type", "Personal access token (OURA_ACCESS_TOKEN)");
+  } else if (!config.access_token) {
+    row("Auth type", chalk.yellow("Not authenticated. Run 'oura auth'."));
+  } else {
+    row("Auth type", config.auth_type === "token" ? "Personal access token" : "OAuth2");
+  }
+
+  if (config.client_id) {
+    row("Client ID", maskCredential(config.client_id));
+  }
+  row("Config file", await describeFile(getConfigPath()));
+  row("Secrets", `${store.kind}, ${await describeFile(store.path)}`);
+
+  if (!envToken && config.access_token) {
+    if (config.auth_type === "token") {
+      row("Access token", "present, does not expire");
+    } else if (config.expiry) {
+      const expired = isTokenExpired(config);
+      const when = `${expired ? "expired" : "expires"} ${new Date(config.expiry).toLocaleString()}`;
+      row("Access token", expired ? chalk.yellow(`present, ${when}`) : `present, ${when}`);
+    } else {
+      row("Access token", "present, expiry unknown");
+    }
+    if (config.auth_type !== "token") {
+      row(
+        "Refresh token",
+        config.refresh_token ? "present" : chalk.yellow("missing, re-run 'oura auth' when the token expires")
+      );
+    }
+  }
+
+  row("Scopes", config.scopes?.length ? config.scopes.join(", ") : chalk.dim("unknown"));
+  if (config.redirect_uri) {
+    row("Redirect URI", config.redirect_uri);
+  }
+  console.log();
+}
+
+// Path plus permissions, flagging files other users can read
+async function describeFile(path: string): Promise<string> {
+  const mode = await getFileMode(path);
+  if (mode === null) {
+    return `${path} ${chalk.dim("(not created yet)")}`;
+  }
+  const octal = mode.toString(8).padStart(4, "0");
+  return mode & 0o077
+    ? `${path} ${chalk.yellow(`(mode ${octal}, readable by others)`)}`
+    : `${path} ${chalk.dim(`(mode ${octal})`)}`;
+}
+
 /**
  * Mask a credential for display, showing only first 4 and last 4 characters
  */
@@ -163,3 +376,27 @@ function maskCredential(value: string): string {
   const last = value.slice(-4);
   return `${first}${"*".repeat(Math.min(value.length - 8, 8))}${last}`;
 }
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new InvalidArgumentError("Must be a port number between 1 and 65535.");
+  }
+  return port;
+}
+
+function parseRedirectUri(value: string): string {
+  try {
+    return new URL(value).toString();
+  } catch {
+    throw new InvalidArgumentError("Must be an absolute URL, e.g. http://localhost:8080/callback");
+  }
+}
+
+function parseScopesOption(value: string): string[] {
+  try {
+    return parseScopes(value);
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,155 @@
+import { Command, Argument, type Option } from "commander";
+
+const SHELLS = ["bash", "zsh", "fish"] as const;
+type Shell = (typeof SHELLS)[number];
+
+// A command reachable from the root, e.g. ["get", "sleep"]
+interface CommandPath {
+  path: string[];
+  command: Command;
+}
+
+export function createCompletionCommand(): Command {
+  return new Command("completion")
+    .description("Print a shell completion script")
+    .addArgument(new Argument("<shell>", "Shell to complete for").choices(SHELLS))
+    .addHelpText(
+      "after",
+      "\nExamples:\n" +
+        "  source <(oura completion bash)            # in ~/.bashrc\n" +
+        "  source <(oura completion zsh)             # in ~/.zshrc\n" +
+        "  oura completion fish > ~/.config/fish/completions/oura.fish"
+    )
+    .action((shell: Shell, _options: unknown, command: Command) => {
+      // Completions are generated from the live command tree, so the data
+      // type subcommands of `oura get` come straight from the registry
+      let root = command;
+      while (root.parent) {
+        root = root.parent;
+      }
+      console.log(shell === "fish" ? renderFish(root) : renderBash(root, shell === "zsh"));
+    });
+}
+
+function collectCommands(command: Command, path: string[] = []): CommandPath[] {
+  return [
+    { path, command },
+    ...command.commands.flatMap((child) => collectCommands(child, [...path, child.name()])),
+  ];
+}
+
+function optionFlags(option: Option): string[] {
+  return [option.short, option.long].filter((flag): flag is string => Boolean(flag));
+}
+
+// Words completed after a command: its subcommands, argument choices and options
+function completionWords(command: Command): string[] {
+  return [
+    ...command.commands.map((child) => child.name()),
+    ...command.registeredArguments.flatMap((argument) => argument.argChoices ?? []),
+    ...command.options.filter((option) => !option.hidden).flatMap(optionFlags),
+  ];
+}
+
+// zsh runs the bash script through bashcompinit
+function renderBash(root: Command, zsh: boolean): string {
+  const commands = collectCommands(root);
+  const name = root.name();
+
+  const words = commands.map(
+    ({ path, command }) => `    "${path.join(" ")}") echo "${completionWords(command).join(" ")}" ;;`
+  );
+
+  const values = commands.flatMap(({ path, command }) =>
+    command.options
+      .filter((option) => option.argChoices)
+      .flatMap((option) =>
+        optionFlags(option).map(
+          (flag) => `    "${[...path, flag].join(" ")}") echo "${option.argChoices!.join(" ")}" ;;`
+        )
+      )
+  );
+
+  return `${zsh ? "autoload -U +X bashcompinit && bashcompinit\n\n" : ""}# Subcommands and options of each command path
+_${name}_words() {
+  case "$1" in
+${words.join("\n")}
+  esac
+}
+
+# Allowed values of options with a fixed set of choices
+_${name}_values() {
+  case "$1" in
+${values.join("\n")}
+  esac
+}
+
+_${name}() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}" prev="\${COMP_WORDS[COMP_CWORD-1]}" path="" word values
+  for word in "\${COMP_WORDS[@]:1:COMP_CWORD-1}"; do
+    if [[ "$word" != -* && " $(_${name}_words "$path") " == *" $word "* ]]; then
+      path="\${path:+$path }$word"
+    fi
+  done
+
+  values="$(_${name}_values "\${path:+$path }$prev")"
+  if [[ -n "$values" ]]; then
+    COMPREPLY=($(compgen -W "$values" -- "$cur"))
+  else
+    COMPREPLY=($(compgen -W "$(_${name}_words "$path")" -- "$cur"))
+  fi
+}
+
+complete -F _${name} ${name}`;
+}
+
+function renderFish(root: Command): string {
+  const name = root.name();
+  const lines = [`complete -c ${name} -f`];
+
+  for (const { path, command } of collectCommands(root)) {
+    const seen = path.map((word) => `__fish_seen_subcommand_from ${word}`);
+
+    const subcommands = command.commands.map((child) => child.name());
+    const choices = command.registeredArguments.flatMap((argument) => argument.argChoices ?? []);
+    if (choices.length > 0) {
+      lines.push(`complete -c ${name} -n '${seen.join("; and ")}' -a ${quoteFish(choices.join(" "))}`);
+    }
+    if (subcommands.length > 0) {
+      const condition = path.length === 0
+        ? "__fish_use_subcommand"
+        : [...seen, `not __fish_seen_subcommand_from ${subcommands.join(" ")}`].join("; and ");
+      for (const child of command.commands) {
+        lines.push(
+          `complete -c ${name} -n '${condition}' -a ${child.name()} -d ${quoteFish(child.description())}`
+        );
+      }
+    }
+
+    for (const option of command.options.filter((option) => !option.hidden)) {
+      const parts = [`complete -c ${name}`];
+      if (seen.length > 0) {
+        parts.push(`-n '${seen.join("; and ")}'`);
+      }
+      if (option.short) {
+        parts.push(`-s ${option.short.replace(/^-/, "")}`);
+      }
+      if (option.long) {
+        parts.push(`-l ${option.long.replace(/^--/, "")}`);
+      }
+      if (option.argChoices) {
+        parts.push(`-xa ${quoteFish(option.argChoices.join(" "))}`);
+      } else if (option.required || option.optional) {
+        parts.push("-r");
+      }
+      parts.push(`-d ${quoteFish(option.description)}`);
+      lines.push(parts.join(" "));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function quoteFish(text: string): string {
+  return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
@@ -1,38 +1,67 @@
-import { Command } from "commander";
-import { select, input, confirm } from "@inquirer/prompts";
+import { Command, Option, InvalidArgumentError } from "commander";
+import { input, confirm } from "@inquirer/prompts";
 import chalk from "chalk";
-import fs from "fs/promises";
-import path from "path";
 import { OuraClient } from "../api/client";
+import { ALL_DATA_TYPES, type DataType } from "../api/registry";
+import { toRows, OUTPUT_FORMATS, type OutputFormat } from "../output/format";
+import { ProgressDisplay } from "../output/progress";
+import { ExportCheckpoint, type ExportChunk } from "../export/checkpoint";
+import {
+  EXPORT_FORMAT_VERSION,
+  EXPORT_LAYOUTS,
+  checkLayout,
+  createExportWriter,
+  getDefaultLayout,
+  getExportPath,
+  type ExportLayout,
+} from "../export/writers";
+import { getToday, resolveDateRange, splitDayRange, validateDateSpec, DATE_SPEC_FORMATS } from "../utils/dates";
 
 interface DateOptions {
   start?: string;
   end?: string;
 }
 
-// Helper to extract a YYYY-MM-DD date key from an item
-function getDateKey(item: any): string | null {
-  if (item.day) {
-    return item.day;
-  }
-  if (item.timestamp) {
-    return item.timestamp.split("T")[0];
-  }
-  if (item.start_datetime) {
-    return item.start_datetime.split("T")[0];
-  }
-  if (item.start_time) {
-    return item.start_time.split("T")[0]; // For EnhancedTag
-  }
-  return null;
+interface ExportOptions extends DateOptions {
+  format: OutputFormat;
+  layout?: ExportLayout;
+  output?: string;
+  concurrency?: number;
+  resume?: string;
+}
+
+// Days fetched per request. Documents are written chunk by chunk, so this
+// bounds how much of a long export is held in memory at once, and how much an
+// interrupted export has to fetch again.
+const EXPORT_CHUNK_DAYS = 30;
+
+interface ExportFailure {
+  type: DataType;
+  chunk: ExportChunk;
+  error: unknown;
 }
 
 export function createExportCommand(): Command {
   return new Command("export")
-    .description("Export all Oura data to a JSON file")
-    .option("-s, --start <date>", "Start date (YYYY-MM-DD)")
-    .option("-e, --end <date>", "End date (YYYY-MM-DD)")
-    .action(async (options: DateOptions) => {
+    .description("Export all Oura data to a JSON, NDJSON, CSV or TSV file")
+    .option("-s, --start <date>", `Start date (${DATE_SPEC_FORMATS})`)
+    .option("-e, --end <date>", "End date, in the same formats")
+    .addOption(
+      new Option("-f, --format <format>", "Output format (csv and tsv write one file per data type)")
+        .choices(OUTPUT_FORMATS)
+        .default("json")
+    )
+    .addOption(
+      new Option("-l, --layout <layout>", "One file, YYYY/MM/YYYY-MM-DD files, or one file per data type")
+        .choices(EXPORT_LAYOUTS)
+    )
+    .option("-o, --output <path>", "File or directory to write the export to")
+    .option("-c, --concurrency <n>", "Maximum number of API requests in flight", parsePositiveInt)
+    .addOption(
+      new Option("--resume <manifest>", "Resume an interrupted export from its manifest")
+        .conflicts(["start", "end", "format", "layout", "output"])
+    )
+    .action(async (options: ExportOptions) => {
       try {
         await runExport(options);
       } catch (error) {
@@ -45,10 +74,124 @@ export function createExportCommand(): Command {
     });
 }
 
-async function runExport(options: DateOptions): Promise<void> {
-  // Determine date range
-  let start = options.start;
-  let end = options.end;
+async function runExport(options: ExportOptions): Promise<void> {
+  const client = await OuraClient.create({ concurrency: options.concurrency });
+  const checkpoint = options.resume
+    ? await ExportCheckpoint.load(options.resume)
+    : await startExport(options);
+  const { start, end } = checkpoint.range;
+  const range = start ? ` from ${start} to ${end || 'now'}` : '';
+
+  console.log(chalk.cyan(`\n${options.resume ? `🔁 Resuming export${range}` : `🚀 Starting export${range}`}...`));
+  console.log(chalk.dim(`Progress is saved to ${checkpoint.manifestPath}\n`));
+
+  const staticTypes = ALL_DATA_TYPES.filter((type) => !type.timeSeries);
+  const timeSeriesTypes = ALL_DATA_TYPES.filter((type) => type.timeSeries);
+  const chunksOf = (type: DataType): ExportChunk[] => (type.timeSeries ? checkpoint.chunks : [checkpoint.range]);
+
+  const progress = new ProgressDisplay(
+    ALL_DATA_TYPES.map((type) => ({ key: type.key, label: type.name, total: chunksOf(type).length }))
+  );
+  const failures: ExportFailure[] = [];
+
+  // Parts finished by an earlier run are not fetched again
+  const pending = (type: DataType, chunk: ExportChunk): boolean => {
+    const records = checkpoint.getDone(type, chunk);
+    if (records === null) {
+      return true;
+    }
+    progress.advance(type.key, records);
+    return false;
+  };
+
+  try {
+    // 1. Documents about the account and ring come first, ahead of the days
+    for (const type of staticTypes.filter((type) => pending(type, checkpoint.range))) {
+      try {
+        const records = await checkpoint.writePart(type, checkpoint.range, fetchStatic(client, type, start, end));
+        progress.advance(type.key, records);
+      } catch (error) {
+        failures.push({ type, chunk: checkpoint.range, error });
+        progress.fail(type.key);
+      }
+    }
+
+    // 2. Then every time-series type, one chunk of days at a time. Types are
+    // fetched in parallel; the client caps requests in flight and retries rate
+    // limits and transient errors, so a failure here is left for --resume.
+    for (const [index, chunk] of checkpoint.chunks.entries()) {
+      await Promise.all(
+        timeSeriesTypes
+          .filter((type) => pending(type, chunk))
+          .map(async (type) => {
+            try {
+              const pages = fetchChunk(client, type, chunk, index === 0);
+              const records = await checkpoint.writePart(type, chunk, pages);
+              progress.advance(type.key, records);
+            } catch (error) {
+              failures.push({ type, chunk, error });
+              progress.fail(type.key);
+            }
+          })
+      );
+    }
+  } finally {
+    progress.finish();
+  }
+
+  for (const { type, chunk, error } of failures) {
+    const range = chunk.start ? ` (${chunk.start} → ${chunk.end})` : "";
+    console.warn(
+      chalk.yellow(`Warning: Failed to fetch ${type.name}${range}: ${error instanceof Error ? error.message : error}`)
+    );
+  }
+
+  if (failures.length > 0) {
+    console.log(chalk.yellow(`\n⚠️  Export stopped with ${failures.length} failed request(s). Finished chunks are kept.`));
+    console.log(chalk.white(`Resume with: ${chalk.bold(`oura export --resume ${checkpoint.manifestPath}`)}`));
+    process.exit(1);
+  }
+
+  // 3. Everything is on disk; assemble the output from the parts
+  const writer = await createExportWriter(checkpoint.format, checkpoint.layout, checkpoint.output, {
+    export_date: checkpoint.createdAt,
+    date_range: checkpoint.range,
+    version: EXPORT_FORMAT_VERSION,
+  });
+  for (const type of staticTypes) {
+    const documents: unknown[] = [];
+    for await (const page of checkpoint.readPart(type, checkpoint.range)) {
+      documents.push(...page);
+    }
+    await writer.writeStatic(type, documents);
+  }
+  for (const chunk of checkpoint.chunks) {
+    for (const type of timeSeriesTypes) {
+      for await (const page of checkpoint.readPart(type, chunk)) {
+        await writer.writePage(type, page);
+      }
+    }
+    await writer.endChunk();
+  }
+  await writer.close();
+  await checkpoint.remove();
+
+  console.log(chalk.green(`\n✅ Export successful!`));
+  console.log(chalk.white(`Data saved to: ${chalk.bold(writer.path)}`));
+}
+
+/**
+ * Ask for anything missing from the date range and set up the checkpoint of a
+ * new export
+ */
+async function startExport(options: ExportOptions): Promise<ExportCheckpoint> {
+  const layout = options.layout ?? getDefaultLayout(options.format);
+  checkLayout(options.format, layout);
+  const output = getExportPath(options.format, layout, options.output);
+
+  // Determine date range. Relative dates are resolved here rather than while
+  // parsing options, so that they use the timezone given with --tz.
+  let { start, end } = resolveDateRange(options.start, options.end);
 
   if (!start || !end) {
     const useRange = await confirm({
@@ -59,145 +202,72 @@ async function runExport(options: DateOptions): Promise<void> {
     if (useRange) {
         if(!start) {
              start = await input({
-                message: "Start date (YYYY-MM-DD):",
-                validate: (value) => {
-                  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-                    return "Please enter a valid date in YYYY-MM-DD format";
-                  }
-                  return true;
-                },
+                message: "Start date (YYYY-MM-DD, today, -7d, last-week...):",
+                validate: (value) => validateDateSpec(value, undefined, end),
               });
         }
         if(!end) {
              end = await input({
-                message: "End date (YYYY-MM-DD):",
-                default: new Date().toISOString().split("T")[0],
-                validate: (value) => {
-                  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-                    return "Please enter a valid date in YYYY-MM-DD format";
-                  }
-                  return true;
-                },
+                message: "End date:",
+                default: getToday(),
+                validate: (value) => validateDateSpec(value, start),
               });
         }
+        ({ start, end } = resolveDateRange(start, end));
     }
   }
 
-  console.log(chalk.cyan(`\n🚀 Starting export${start ? ` from ${start} to ${end || 'now'}` : ''}...\n`));
-
-  const client = await OuraClient.create();
-  
-  // 1. Fetch Personal Info (Not date based)
-  console.log(chalk.dim("Fetching Personal Info..."));
-  const personalInfo = await checkError(() => client.getPersonalInfo());
-
-  // 2. Fetch Ring Config (Not easily date based in type definition, though API accepts dates)
-  console.log(chalk.dim("Fetching Ring Configuration..."));
-  const ringConfig = await checkError(() => client.getRingConfiguration(start, end));
-
-  // 3. Define all time-series fetchers
-  const fetchers = [
-    { key: "sleep", label: "Daily Sleep", fn: () => client.getDailySleep(start, end) },
-    { key: "activity", label: "Daily Activity", fn: () => client.getDailyActivity(start, end) },
-    { key: "readiness", label: "Daily Readiness", fn: () => client.getDailyReadiness(start, end) },
-    { key: "heartrate", label: "Heart Rate", fn: () => client.getHeartRate(start, end) },
-    { key: "workouts", label: "Workouts", fn: () => client.getWorkouts(start, end) },
-    { key: "spo2", label: "SpO2", fn: () => client.getSpO2(start, end) },
-    { key: "sleep_detailed", label: "Sleep Details", fn: () => client.getSleep(start, end) },
-    { key: "sessions", label: "Sessions", fn: () => client.getSessions(start, end) },
-    { key: "sleep_times", label: "Sleep Times", fn: () => client.getSleepTimes(start, end) },
-    { key: "stress", label: "Daily Stress", fn: () => client.getDailyStress(start, end) },
-    { key: "resilience", label: "Daily Resilience", fn: () => client.getDailyResilience(start, end) },
-    { key: "cv_age", label: "Cardiovascular Age", fn: () => client.getCVAge(start, end) },
-    { key: "vo2_max", label: "VO2 Max", fn: () => client.getVO2Max(start, end) },
-    { key: "rest_mode", label: "Rest Mode", fn: () => client.getRestModePeriod(start, end) },
-    { key: "tags", label: "Enhanced Tags", fn: () => client.getEnhancedTags(start, end) },
-  ];
-
-  // 4. Fetch all data in parallel
-  const results: Record<string, any> = {};
-  
-  // We'll execute them sequentially or in batches to avoid overwhelming the API rate limits if strictly necessary,
-  // but usually parallel is fine for this number of endpoints unless the range is huge.
-  // Let's do parallel for speed.
-  const promises = fetchers.map(async (item) => {
-    console.log(chalk.dim(`Fetching ${item.label}...`));
-    try {
-        const response: any = await item.fn();
-        return { key: item.key, data: response?.data || [] };
-    } catch (e) {
-        console.warn(chalk.yellow(`Warning: Failed to fetch ${item.label}: ${e instanceof Error ? e.message : e}`));
-        return { key: item.key, data: [] };
-    }
-  });
+  const chunks: ExportChunk[] = start
+    ? splitDayRange(start, end || getToday(), EXPORT_CHUNK_DAYS)
+    : [{ start, end }];
 
-  const fetchedData = await Promise.all(promises);
-
-  // 5. Group by Date
-  console.log(chalk.dim("\nProcessing and grouping data..."));
-  
-  const groupedData: Record<string, Record<string, any>> = {};
+  return ExportCheckpoint.create({
+    output,
+    format: options.format,
+    layout,
+    range: { start, end },
+    chunks,
+  });
+}
 
-  for (const { key, data } of fetchedData) {
-    if (!Array.isArray(data)) continue;
+// The single page of a document that isn't split by day
+async function* fetchStatic(
+  client: OuraClient,
+  type: DataType,
+  start?: string,
+  end?: string
+): AsyncGenerator<unknown[]> {
+  yield toRows(await client.getData(type, start, end));
+}
 
-    for (const item of data) {
-      const dateKey = getDateKey(item);
-      if (dateKey) {
-        if (!groupedData[dateKey]) {
-          groupedData[dateKey] = {};
-        }
-        if (!groupedData[dateKey][key]) {
-          groupedData[dateKey][key] = [];
-        }
-        groupedData[dateKey][key].push(item);
-      } else {
-        // Fallback for items without a clear date, though most should have one
-        if (!groupedData["unknown_date"]) groupedData["unknown_date"] = {};
-        if (!groupedData["unknown_date"][key]) groupedData["unknown_date"][key] = [];
-        groupedData["unknown_date"][key].push(item);
-      }
+/**
+ * Pages of one chunk of a data type. Documents that reach outside the chunk
+ * (such as a rest mode period that started earlier) belong to a neighbouring
+ * chunk and are skipped, except in the first chunk.
+ */
+async function* fetchChunk(
+  client: OuraClient,
+  type: DataType,
+  chunk: ExportChunk,
+  first: boolean
+): AsyncGenerator<unknown[]> {
+  const inChunk = (document: unknown): boolean => {
+    const day = type.dateKey(document);
+    if (!day || !chunk.start || !chunk.end) {
+      return true;
     }
-  }
-
-  // 6. Sort Dates
-  const sortedDates = Object.keys(groupedData).sort();
-  const sortedGroupedData: Record<string, any> = {};
-  for (const date of sortedDates) {
-    sortedGroupedData[date] = groupedData[date];
-  }
-
-  // 7. unexpected items (like ring config)
-  // Ring config technically can be multiple items over time? 
-  // Let's just put ring config at root or in a separate "global" bucket if we couldn't date it.
-  // Actually, let's look at checkError helper output.
-
-  const exportObject = {
-    meta: {
-      export_date: new Date().toISOString(),
-      date_range: { start, end },
-      version: "1.0.0"
-    },
-    personal_info: personalInfo,
-    ring_configuration: ringConfig?.data || [], // Put here if not mapped to dates
-    data: sortedGroupedData
+    return day <= chunk.end && (first || day >= chunk.start);
   };
 
-  // 8. Write to file
-  const filename = `oura_export_${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
-  const filePath = path.join(process.cwd(), filename);
-
-  await fs.writeFile(filePath, JSON.stringify(exportObject, null, 2));
-
-  console.log(chalk.green(`\n✅ Export successful!`));
-  console.log(chalk.white(`Data saved to: ${chalk.bold(filePath)}`));
+  for await (const page of client.paginateRange(type, chunk.start, chunk.end)) {
+    yield page.filter(inChunk);
+  }
 }
 
-async function checkError<T>(fn: () => Promise<T>): Promise<T | null> {
-    try {
-        return await fn();
-    } catch (e) {
-        console.warn(chalk.yellow(`Warning: Failed to fetch data: ${e instanceof Error ? e.message : e}`));
-        return null;
-    }
+function parsePositiveInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return parsed;
 }
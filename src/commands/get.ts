@@ -1,10 +1,45 @@
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import { select, input, confirm } from "@inquirer/prompts";
 import chalk from "chalk";
 import { OuraClient } from "../api/client";
-
-function printJSON(data: unknown): void {
-  console.log(JSON.stringify(data, null, 2));
+import {
+  ALL_DATA_TYPES,
+  DATA_CATEGORIES,
+  DATA_TYPES,
+  getCommandName,
+  getDataTypeByCommand,
+  type DataType,
+} from "../api/registry";
+import { Store } from "../store/store";
+import { formatResult, toRows, OUTPUT_FORMATS, type OutputFormat } from "../output/format";
+import { renderTable, hasTableRenderer } from "../output/table";
+import {
+  getChartMarkers,
+  getChartSeries,
+  hasChart,
+  renderChart,
+  CHART_STYLES,
+  type ChartStyle,
+} from "../output/chart";
+import {
+  addDays,
+  getToday,
+  resolveDateRange,
+  resolveDateTimeRange,
+  validateDateSpec,
+  DATE_SPEC_FORMATS,
+} from "../utils/dates";
+
+// Print a result as a table on a TTY (for types that have one), otherwise in
+// the requested format. --json and piped output keep the raw JSON.
+function printResult(result: unknown, endpoint: string, options: GetOptions = {}): void {
+  if (options.format) {
+    console.log(formatResult(result, options.format, endpoint));
+  } else if (!options.json && process.stdout.isTTY && hasTableRenderer(endpoint)) {
+    console.log(renderTable(result, endpoint));
+  } else {
+    console.log(formatResult(result, "json", endpoint));
+  }
 }
 
 interface DateOptions {
@@ -12,168 +47,113 @@ interface DateOptions {
   end?: string;
 }
 
-// Data type definitions with categories
-interface DataType {
-  name: string;
-  value: string;
-  description: string;
-  hasDateRange: boolean;
-  fetch: (client: OuraClient, start?: string, end?: string) => Promise<unknown>;
+interface GetOptions extends DateOptions {
+  from?: string;
+  to?: string;
+  id?: string;
+  offline?: boolean;
+  format?: OutputFormat;
+  json?: boolean;
+  // true when --chart is given without a style
+  chart?: ChartStyle | true;
 }
 
-const DATA_CATEGORIES: Record<string, DataType[]> = {
-  "👤 Personal": [
-    {
-      name: "Personal Info",
-      value: "personal",
-      description: "Your profile information (age, weight, email)",
-      hasDateRange: false,
-      fetch: (client) => client.getPersonalInfo(),
-    },
-    {
-      name: "Ring Configuration",
-      value: "ring-config",
-      description: "Ring hardware info and settings",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getRingConfiguration(start, end),
-    },
-  ],
-  "😴 Sleep": [
-    {
-      name: "Daily Sleep",
-      value: "sleep",
-      description: "Daily sleep summary with scores",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getDailySleep(start, end),
-    },
-    {
-      name: "Sleep Details",
-      value: "sleep-details",
-      description: "Detailed sleep sessions and stages",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getSleep(start, end),
-    },
-    {
-      name: "Optimal Bedtime",
-      value: "sleep-times",
-      description: "Recommended bedtime guidance",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getSleepTimes(start, end),
-    },
-  ],
-  "🏃 Activity": [
-    {
-      name: "Daily Activity",
-      value: "activity",
-      description: "Steps, calories, and movement data",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getDailyActivity(start, end),
-    },
-    {
-      name: "Workouts",
-      value: "workout",
-      description: "Recorded workout sessions",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getWorkouts(start, end),
-    },
-    {
-      name: "Sessions",
-      value: "sessions",
-      description: "Activity and meditation sessions",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getSessions(start, end),
-    },
-  ],
-  "❤️ Heart & Body": [
-    {
-      name: "Heart Rate",
-      value: "heartrate",
-      description: "Heart rate time series data",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getHeartRate(start, end),
-    },
-    {
-      name: "Blood Oxygen (SpO2)",
-      value: "spo2",
-      description: "Blood oxygen saturation levels",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getSpO2(start, end),
-    },
-    {
-      name: "Cardiovascular Age",
-      value: "cv-age",
-      description: "Estimated cardiovascular age",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getCVAge(start, end),
-    },
-    {
-      name: "VO2 Max",
-      value: "vo2-max",
-      description: "VO2 max fitness estimate",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getVO2Max(start, end),
-    },
-  ],
-  "🧘 Wellness": [
-    {
-      name: "Readiness",
-      value: "readiness",
-      description: "Daily readiness score and contributors",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getDailyReadiness(start, end),
-    },
-    {
-      name: "Stress",
-      value: "stress",
-      description: "Daily stress levels",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getDailyStress(start, end),
-    },
-    {
-      name: "Resilience",
-      value: "resilience",
-      description: "Daily resilience data",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getDailyResilience(start, end),
-    },
-    {
-      name: "Rest Mode",
-      value: "rest-mode",
-      description: "Rest mode periods",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getRestModePeriod(start, end),
-    },
-  ],
-  "🏷️ Other": [
-    {
-      name: "Tags",
-      value: "tags",
-      description: "Enhanced tags you've added",
-      hasDateRange: true,
-      fetch: (client, start, end) => client.getEnhancedTags(start, end),
-    },
-  ],
-};
-
-// Flatten for lookup
-const ALL_DATA_TYPES: DataType[] = Object.values(DATA_CATEGORIES).flat();
-
-function getDataTypeByValue(value: string): DataType | undefined {
-  return ALL_DATA_TYPES.find((dt) => dt.value === value);
+// Helper to add the output format option to a command
+function addFormatOption(command: Command): Command {
+  return command
+    .addOption(
+      new Option("-f, --format <format>", "Output format (default: table on a terminal, else json)")
+        .choices(OUTPUT_FORMATS)
+        .conflicts("json")
+    )
+    .option("--json", "Always print raw JSON");
 }
 
 // Helper to add common date options to a command
 function addDateOptions(command: Command): Command {
-  return command
-    .option("-s, --start <date>", "Start date (YYYY-MM-DD)")
-    .option("-e, --end <date>", "End date (YYYY-MM-DD)");
+  return addFormatOption(command)
+    .option("-s, --start <date>", `Start date (${DATE_SPEC_FORMATS})`)
+    .option("-e, --end <date>", "End date, in the same formats")
+    .option("--offline", "Read from the local cache populated by 'oura sync'");
+}
+
+// Helper to add date options plus time-of-day bounds, for datetime-ranged
+// types such as heartrate
+function addDateTimeOptions(command: Command): Command {
+  return addDateOptions(command)
+    .addOption(
+      new Option("--from <datetime>", "Start time (YYYY-MM-DDTHH:MM in --tz, or any --start format)")
+        .conflicts(["start", "offline"])
+    )
+    .addOption(
+      new Option("--to <datetime>", "End time, in the same formats").conflicts(["end", "offline"])
+    );
+}
+
+// Helper to add the chart option, for types with a chart layout
+function addChartOption(command: Command): Command {
+  return command.addOption(
+    new Option("--chart [style]", "Draw a chart instead of printing the data (default style: block)")
+      .choices(CHART_STYLES)
+      .conflicts(["format", "json", "id"])
+  );
 }
 
-// Helper to handle errors consistently
-async function executeCommand<T>(fn: () => Promise<T>): Promise<void> {
+// Helper to add date options plus a single-document lookup to a command
+function addDocumentOptions(command: Command): Command {
+  return addDateOptions(command).addOption(
+    new Option("--id <document_id>", "Fetch a single document by its id").conflicts(["start", "end"])
+  );
+}
+
+// Fetch from the API, or from the local cache when there is no client
+// (--offline)
+async function fetchData(client: OuraClient | null, type: DataType, options: GetOptions): Promise<unknown> {
+  if (!client) {
+    const store = await Store.open();
+    try {
+      if (!store.getLastSyncedDay(type.endpoint)) {
+        throw new Error(
+          `No cached data for '${type.endpoint}'. Run 'oura sync' first.`
+        );
+      }
+      if (options.id) {
+        const document = store.get(type.endpoint, options.id);
+        if (!document) {
+          throw new Error(`No cached '${type.endpoint}' document with id '${options.id}'.`);
+        }
+        return document;
+      }
+      return store.query(type.endpoint, options.start, options.end);
+    } finally {
+      store.close();
+    }
+  }
+
+  if (options.id) {
+    return client.getById(type, options.id);
+  }
+  return client.getData(type, options.start, options.end);
+}
+
+// Helper to fetch, print and handle errors consistently
+async function executeCommand(type: DataType, options: GetOptions): Promise<void> {
   try {
-    const result = await fn();
-    printJSON(result);
+    // Relative dates are resolved here rather than while parsing options, so
+    // that they use the timezone given with --tz. Datetime-ranged types get
+    // exact times; the offline cache is indexed by day.
+    const range = type.dateParams === "datetime" && !options.offline
+      ? resolveDateTimeRange(options.from ?? options.start, options.to ?? options.end)
+      : resolveDateRange(options.start, options.end);
+    // One client for every request of the command, so the config is loaded
+    // and an expired token refreshed only once
+    const client = options.offline ? null : await OuraClient.create();
+    const result = await fetchData(client, type, { ...options, ...range });
+    if (options.chart) {
+      await printChart(client, result, type, options.chart === true ? "block" : options.chart, options);
+    } else {
+      printResult(result, type.endpoint, options);
+    }
   } catch (error) {
     console.error(
       "Error:",
@@ -183,12 +163,45 @@ async function executeCommand<T>(fn: () => Promise<T>): Promise<void> {
   }
 }
 
+// Draw a result as a chart as wide as the terminal, marking the days in rest
+// mode and tagged days. The chart is still drawn if those can't be loaded.
+async function printChart(
+  client: OuraClient | null,
+  result: unknown,
+  type: DataType,
+  style: ChartStyle,
+  options: GetOptions
+): Promise<void> {
+  const series = getChartSeries(result, type.endpoint);
+  if (!series) {
+    console.log(chalk.dim("No data for this range."));
+    return;
+  }
+
+  const range = { ...options, start: series.start, end: series.end };
+  const [restMode, tags] = await Promise.allSettled([
+    fetchData(client, DATA_TYPES.rest_mode, range),
+    fetchData(client, DATA_TYPES.tags, range),
+  ]);
+  for (const [marked, settled] of [["rest mode", restMode], ["tags", tags]] as const) {
+    if (settled.status === "rejected") {
+      const reason = settled.reason instanceof Error ? settled.reason.message : settled.reason;
+      console.warn(chalk.yellow(`Warning: Couldn't load ${marked} to mark on the chart: ${reason}`));
+    }
+  }
+
+  const markers = getChartMarkers(
+    restMode.status === "fulfilled" ? toRows(restMode.value) : [],
+    tags.status === "fulfilled" ? toRows(tags.value) : [],
+    series.end
+  );
+  console.log(renderChart(series, style, markers, process.stdout.columns ?? 80));
+}
+
 // Interactive date range prompt
 async function promptForDateRange(): Promise<DateOptions> {
-  const today = new Date().toISOString().split("T")[0];
-  const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-    .toISOString()
-    .split("T")[0];
+  const today = getToday();
+  const weekAgo = addDays(today, -7);
 
   const useRange = await confirm({
     message: "Do you want to specify a date range?",
@@ -214,34 +227,20 @@ async function promptForDateRange(): Promise<DateOptions> {
       return { start: today, end: today };
     case "week":
       return { start: weekAgo, end: today };
-    case "month": {
-      const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split("T")[0];
-      return { start: monthAgo, end: today };
-    }
+    case "month":
+      return { start: addDays(today, -30), end: today };
     case "custom": {
       const start = await input({
-        message: "Start date (YYYY-MM-DD):",
+        message: "Start date (YYYY-MM-DD, today, -7d, last-week...):",
         default: weekAgo,
-        validate: (value) => {
-          if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-            return "Please enter a valid date in YYYY-MM-DD format";
-          }
-          return true;
-        },
+        validate: (value) => validateDateSpec(value),
       });
       const end = await input({
-        message: "End date (YYYY-MM-DD):",
+        message: "End date:",
         default: today,
-        validate: (value) => {
-          if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-            return "Please enter a valid date in YYYY-MM-DD format";
-          }
-          return true;
-        },
+        validate: (value) => validateDateSpec(value, start),
       });
-      return { start, end };
+      return resolveDateRange(start, end);
     }
     default:
       return {};
@@ -260,32 +259,32 @@ async function runInteractiveMode(): Promise<void> {
     description?: string;
   } | { type: "separator"; separator: string }> = [];
 
-  for (const [category, dataTypes] of Object.entries(DATA_CATEGORIES)) {
-    choices.push({ type: "separator", separator: chalk.bold(`\n${category}`) });
-    for (const dt of dataTypes) {
+  for (const [category, label] of Object.entries(DATA_CATEGORIES)) {
+    choices.push({ type: "separator", separator: chalk.bold(`\n${label}`) });
+    for (const dt of ALL_DATA_TYPES.filter((type) => type.category === category)) {
       choices.push({
         name: dt.name,
-        value: dt.value,
+        value: getCommandName(dt),
         description: chalk.dim(dt.description),
       });
     }
   }
 
   try {
-    const selectedValue = await select({
+    const selectedValue = await select<string>({
       message: "What data would you like to get?",
       choices: choices as any,
       pageSize: 15,
     });
 
-    const dataType = getDataTypeByValue(selectedValue);
+    const dataType = getDataTypeByCommand(selectedValue);
     if (!dataType) {
       console.error(chalk.red("Unknown data type selected"));
       process.exit(1);
     }
 
     let dateOptions: DateOptions = {};
-    if (dataType.hasDateRange) {
+    if (dataType.dateParams) {
       dateOptions = await promptForDateRange();
     }
 
@@ -298,14 +297,14 @@ async function runInteractiveMode(): Promise<void> {
     );
 
     const client = await OuraClient.create();
-    const result = await dataType.fetch(client, dateOptions.start, dateOptions.end);
-    printJSON(result);
+    const result = await client.getData(dataType, dateOptions.start, dateOptions.end);
+    printResult(result, dataType.endpoint);
 
     // Helpful tip after fetching
     console.log(
       chalk.dim(
         `\n💡 Tip: You can also run ${chalk.yellow(
-          `oura get ${dataType.value}${
+          `oura get ${getCommandName(dataType)}${
             dateOptions.start ? ` -s ${dateOptions.start} -e ${dateOptions.end}` : ""
           }`
         )} directly next time.`
@@ -332,176 +331,25 @@ export function createGetCommand(): Command {
       await runInteractiveMode();
     });
 
-  // personal - Get personal info
-  getCommand
-    .command("personal")
-    .description("Get personal information")
-    .action(async () => {
-      await executeCommand(async () => {
-        const client = await OuraClient.create();
-        return client.getPersonalInfo();
-      });
-    });
-
-  // sleep - Get daily sleep summary
-  addDateOptions(
-    getCommand.command("sleep").description("Get daily sleep summary")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getDailySleep(options.start, options.end);
-    });
-  });
-
-  // activity - Get daily activity summary
-  addDateOptions(
-    getCommand.command("activity").description("Get daily activity summary")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getDailyActivity(options.start, options.end);
-    });
-  });
-
-  // readiness - Get daily readiness score
-  addDateOptions(
-    getCommand.command("readiness").description("Get daily readiness score")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getDailyReadiness(options.start, options.end);
-    });
-  });
-
-  // heartrate - Get heart rate time series
-  addDateOptions(
-    getCommand.command("heartrate").description("Get heart rate time series")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getHeartRate(options.start, options.end);
-    });
-  });
-
-  // workout - Get workout data
-  addDateOptions(
-    getCommand.command("workout").description("Get workout data")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getWorkouts(options.start, options.end);
-    });
-  });
-
-  // spo2 - Get blood oxygen levels
-  addDateOptions(
-    getCommand.command("spo2").description("Get blood oxygen (SpO2) levels")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getSpO2(options.start, options.end);
-    });
-  });
-
-  // sleep-details - Get detailed sleep sessions
-  addDateOptions(
-    getCommand.command("sleep-details").description("Get detailed sleep sessions")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getSleep(options.start, options.end);
-    });
-  });
-
-  // sessions - Get activity sessions
-  addDateOptions(
-    getCommand.command("sessions").description("Get activity sessions")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getSessions(options.start, options.end);
-    });
-  });
-
-  // sleep-times - Get optimal bedtime guidance
-  addDateOptions(
-    getCommand.command("sleep-times").description("Get optimal bedtime guidance")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getSleepTimes(options.start, options.end);
-    });
-  });
-
-  // stress - Get daily stress data
-  addDateOptions(
-    getCommand.command("stress").description("Get daily stress data")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getDailyStress(options.start, options.end);
-    });
-  });
-
-  // resilience - Get daily resilience
-  addDateOptions(
-    getCommand.command("resilience").description("Get daily resilience data")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getDailyResilience(options.start, options.end);
-    });
-  });
-
-  // cv-age - Get cardiovascular age
-  addDateOptions(
-    getCommand.command("cv-age").description("Get cardiovascular age data")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getCVAge(options.start, options.end);
-    });
-  });
-
-  // vo2-max - Get VO2 max estimate
-  addDateOptions(
-    getCommand.command("vo2-max").description("Get VO2 max estimate")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getVO2Max(options.start, options.end);
-    });
-  });
-
-  // ring-config - Get ring hardware info
-  addDateOptions(
-    getCommand.command("ring-config").description("Get ring configuration and hardware info")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getRingConfiguration(options.start, options.end);
-    });
-  });
-
-  // rest-mode - Get rest mode periods
-  addDateOptions(
-    getCommand.command("rest-mode").description("Get rest mode periods")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getRestModePeriod(options.start, options.end);
-    });
-  });
-
-  // tags - Get enhanced tags
-  addDateOptions(
-    getCommand.command("tags").description("Get enhanced tags")
-  ).action(async (options: DateOptions) => {
-    await executeCommand(async () => {
-      const client = await OuraClient.create();
-      return client.getEnhancedTags(options.start, options.end);
+  // One subcommand per data type, e.g. `oura get sleep-details`
+  for (const type of ALL_DATA_TYPES) {
+    const command = getCommand.command(getCommandName(type)).description(type.description);
+    if (!type.dateParams) {
+      addFormatOption(command);
+    } else if (type.byId) {
+      addDocumentOptions(command);
+    } else if (type.dateParams === "datetime") {
+      addDateTimeOptions(command);
+    } else {
+      addDateOptions(command);
+    }
+    if (hasChart(type.endpoint)) {
+      addChartOption(command);
+    }
+    command.action(async (options: GetOptions) => {
+      await executeCommand(type, options);
     });
-  });
+  }
 
   return getCommand;
 }
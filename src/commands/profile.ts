@@ -0,0 +1,95 @@
+import { Command } from "commander";
+import { confirm } from "@inquirer/prompts";
+import chalk from "chalk";
+import {
+  listProfiles,
+  setDefaultProfile,
+  removeProfile,
+  getActiveProfile,
+} from "../config/config";
+import { removeStore } from "../store/store";
+
+export function createProfileCommand(): Command {
+  const profileCommand = new Command("profile").description(
+    "Manage named profiles for multiple Oura accounts"
+  );
+
+  profileCommand
+    .command("list")
+    .description("List configured profiles")
+    .action(async () => {
+      await runProfileAction(async () => {
+        const { defaultProfile, profiles } = await listProfiles();
+        const active = await getActiveProfile();
+        const names = Object.keys(profiles).sort();
+
+        if (names.length === 0) {
+          console.log(chalk.dim("No profiles yet. Run 'oura auth --profile <name>' to create one."));
+          return;
+        }
+
+        for (const name of names) {
+          const marker = name === active ? chalk.green("*") : " ";
+          const tags = [
+            name === defaultProfile ? "default" : "",
+            profiles[name].access_token ? "" : "not authenticated",
+          ].filter(Boolean);
+          console.log(
+            `${marker} ${name === active ? chalk.bold(name) : name}${
+              tags.length ? chalk.dim(` (${tags.join(", ")})`) : ""
+            }`
+          );
+        }
+      });
+    });
+
+  profileCommand
+    .command("use <name>")
+    .description("Set the default profile")
+    .action(async (name: string) => {
+      await runProfileAction(async () => {
+        await setDefaultProfile(name);
+        console.log(chalk.green(`✓ Default profile is now '${name}'.`));
+      });
+    });
+
+  profileCommand
+    .command("remove <name>")
+    .description("Remove a profile, its credentials and its local cache")
+    .option("-y, --yes", "Skip the confirmation prompt")
+    .action(async (name: string, options: { yes?: boolean }) => {
+      await runProfileAction(async () => {
+        if (!options.yes) {
+          const proceed = await confirm({
+            message: `Remove profile '${name}' and its cached data?`,
+            default: false,
+          });
+          if (!proceed) {
+            return;
+          }
+        }
+
+        await removeProfile(name);
+        await removeStore(name);
+        console.log(chalk.green(`✓ Removed profile '${name}'.`));
+      });
+    });
+
+  return profileCommand;
+}
+
+async function runProfileAction(fn: () => Promise<void>): Promise<void> {
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof Error && error.name === "ExitPromptError") {
+      console.log(chalk.yellow("\n\nCancelled."));
+      process.exit(0);
+    }
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : error
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,134 @@
+import { Command, Argument, Option, InvalidArgumentError } from "commander";
+import chalk from "chalk";
+import { OuraClient } from "../api/client";
+import { getCommandName, getDataTypeByCommand, type DataType } from "../api/registry";
+import { readExportDocuments } from "../export/reader";
+import { formatStatsTable, renderStats } from "../output/stats";
+import {
+  computeStats,
+  dailyValues,
+  getNumericFields,
+  isScoreField,
+  parseStreakCondition,
+  DEFAULT_SCORE_STREAK,
+  STATS_DATA_TYPES,
+  type StreakCondition,
+} from "../stats/trends";
+import { addDays, getToday, resolveDateRange, DATE_SPEC_FORMATS } from "../utils/dates";
+
+const STATS_FORMATS = ["table", "json", "csv", "tsv"] as const;
+type StatsFormat = (typeof STATS_FORMATS)[number];
+
+// Range fetched from the API when no --start is given
+const DEFAULT_STATS_DAYS = 90;
+const DEFAULT_WINDOW_DAYS = 7;
+
+interface StatsOptions {
+  metric?: string;
+  window?: number;
+  start?: string;
+  end?: string;
+  streak?: StreakCondition;
+  input?: string;
+  format?: StatsFormat;
+}
+
+export function createStatsCommand(): Command {
+  return new Command("stats")
+    .description("Rolling averages, percentiles, trends and streaks for a numeric field")
+    .addArgument(new Argument("<type>", "Data type").choices(STATS_DATA_TYPES.map(getCommandName)))
+    .option("-m, --metric <field>", "Numeric field, dotted for nested ones (default: score)")
+    .option("-w, --window <size>", "Rolling window in days or weeks, e.g. 7d or 2w (default: 7d)", parseWindow)
+    .option("-s, --start <date>", `Start date (${DATE_SPEC_FORMATS}; default: ${DEFAULT_STATS_DAYS} days ago)`)
+    .option("-e, --end <date>", "End date, in the same formats")
+    .option(
+      "--streak <condition>",
+      `Count streaks of days meeting a condition such as '>=85' (default for scores: ${DEFAULT_SCORE_STREAK})`,
+      parseStreakOption
+    )
+    .option("-i, --input <path>", "Read an 'oura export' JSON or NDJSON file or directory instead of the API")
+    .addOption(
+      new Option("-f, --format <format>", "Output format (default: table on a terminal, otherwise json)")
+        .choices(STATS_FORMATS)
+    )
+    .action(async (command: string, options: StatsOptions) => {
+      try {
+        await runStats(getDataTypeByCommand(command)!, options);
+      } catch (error) {
+        console.error(
+          chalk.red("Error computing stats:"),
+          error instanceof Error ? error.message : error
+        );
+        process.exit(1);
+      }
+    });
+}
+
+async function runStats(type: DataType, options: StatsOptions): Promise<void> {
+  const metric = resolveMetric(type, options.metric);
+  const range = resolveDateRange(options.start, options.end);
+
+  let documents: unknown[];
+  if (options.input) {
+    // Exports cover their own range; --start and --end narrow it down
+    documents = await readExportDocuments(options.input, type);
+  } else {
+    const end = range.end ?? getToday();
+    const start = range.start ?? addDays(end, -(DEFAULT_STATS_DAYS - 1));
+    const client = await OuraClient.create();
+    documents = (await client.list(type, start, end)).data;
+  }
+
+  const series = dailyValues(type, documents, metric).filter(
+    ({ day }) => (!range.start || day >= range.start) && (!range.end || day <= range.end)
+  );
+  const stats = computeStats(series, {
+    type,
+    metric,
+    window: options.window ?? DEFAULT_WINDOW_DAYS,
+    streak: options.streak ?? (isScoreField(metric) ? parseStreakCondition(DEFAULT_SCORE_STREAK) : undefined),
+  });
+
+  const format = options.format ?? (process.stdout.isTTY ? "table" : "json");
+  switch (format) {
+    case "table":
+      console.log(renderStats(stats, type.name));
+      break;
+    case "json":
+      console.log(JSON.stringify(stats, null, 2));
+      break;
+    case "csv":
+    case "tsv":
+      console.log(formatStatsTable(stats, format));
+      break;
+  }
+}
+
+function resolveMetric(type: DataType, metric: string | undefined): string {
+  const fields = getNumericFields(type);
+  if (fields.includes(metric ?? "score")) {
+    return metric ?? "score";
+  }
+  const problem = metric
+    ? `'${metric}' is not a numeric field of ${type.name}.`
+    : `${type.name} has no score; pick a field with --metric.`;
+  throw new Error(`${problem} Numeric fields: ${fields.join(", ")}`);
+}
+
+// Days, or weeks with a "w" suffix
+function parseWindow(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+)([dw]?)$/);
+  const days = match ? Number(match[1]) * (match[2] === "w" ? 7 : 1) : 0;
+  if (days < 1) {
+    throw new InvalidArgumentError("Must be a number of days or weeks, e.g. 7d or 2w.");
+  }
+  return days;
+}
+
+function parseStreakOption(value: string): StreakCondition {
+  try {
+    return parseStreakCondition(value);
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+}
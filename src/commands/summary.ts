@@ -0,0 +1,60 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { OuraClient } from "../api/client";
+import { buildSummary, BASELINE_DAYS, SUMMARY_DATA_TYPES } from "../stats/summary";
+import { renderSummary } from "../output/summary";
+import { addDays, getToday, resolveDateRange, DATE_SPEC_FORMATS } from "../utils/dates";
+
+interface SummaryOptions {
+  date?: string;
+  json?: boolean;
+}
+
+export function createSummaryCommand(): Command {
+  return new Command("summary")
+    .description("Daily briefing: scores against your 7- and 30-day averages")
+    .option("-d, --date <date>", `Day to summarise (${DATE_SPEC_FORMATS}; default: today)`)
+    .option("--json", "Print the summary as JSON")
+    .action(async (options: SummaryOptions) => {
+      try {
+        await runSummary(options);
+      } catch (error) {
+        console.error(
+          chalk.red("Error building summary:"),
+          error instanceof Error ? error.message : error
+        );
+        process.exit(1);
+      }
+    });
+}
+
+async function runSummary(options: SummaryOptions): Promise<void> {
+  const day = options.date ? resolveDateRange(options.date).start! : getToday();
+  const client = await OuraClient.create();
+
+  // The day itself plus the baseline before it, for every data type at once
+  const start = addDays(day, -BASELINE_DAYS.long);
+  const results = await Promise.allSettled(
+    SUMMARY_DATA_TYPES.map((type) => client.list(type, start, day))
+  );
+
+  // A data type that fails (e.g. one the account has no access to) only
+  // leaves its metrics empty
+  const documents = new Map<string, unknown[]>();
+  results.forEach((result, i) => {
+    const type = SUMMARY_DATA_TYPES[i];
+    if (result.status === "fulfilled") {
+      documents.set(type.key, result.value.data);
+    } else {
+      const reason = result.reason instanceof Error ? result.reason.message : result.reason;
+      console.warn(chalk.yellow(`Warning: Failed to fetch ${type.name}: ${reason}`));
+    }
+  });
+
+  const summary = buildSummary(day, documents);
+  if (options.json || !process.stdout.isTTY) {
+    console.log(JSON.stringify(summary, null, 2));
+  } else {
+    console.log(renderSummary(summary));
+  }
+}
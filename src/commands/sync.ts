@@ -0,0 +1,92 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { OuraClient } from "../api/client";
+import { COLLECTION_DATA_TYPES, type DataType } from "../api/registry";
+import { Store, getStorePath } from "../store/store";
+import { addDays, getToday, resolveDateRange, DATE_SPEC_FORMATS } from "../utils/dates";
+
+interface SyncOptions {
+  start?: string;
+  full?: boolean;
+}
+
+// How far back the first sync of an endpoint reaches when --start is not given
+const DEFAULT_INITIAL_DAYS = 30;
+
+export function createSyncCommand(): Command {
+  return new Command("sync")
+    .description("Sync Oura data into the local cache for offline use")
+    .option("-s, --start <date>", `Sync from this date (${DATE_SPEC_FORMATS}) instead of the last synced day`)
+    .option("--full", "Re-download everything from the earliest cached day (or --start) instead of the last synced day")
+    .action(async (options: SyncOptions) => {
+      try {
+        await runSync(options);
+      } catch (error) {
+        console.error(
+          chalk.red("Error syncing data:"),
+          error instanceof Error ? error.message : error
+        );
+        process.exit(1);
+      }
+    });
+}
+
+async function runSync(options: SyncOptions): Promise<void> {
+  const today = getToday();
+  // Rejects a start date in the future before anything is fetched
+  const { start: fromDay } = resolveDateRange(options.start, options.start && today);
+  const client = await OuraClient.create();
+  const store = await Store.open();
+  const initialStart = fromDay || addDays(today, -DEFAULT_INITIAL_DAYS);
+
+  console.log(chalk.cyan(`\n🔄 Syncing to ${await getStorePath()}\n`));
+
+  let failures = 0;
+
+  try {
+    for (const type of COLLECTION_DATA_TYPES) {
+      // Re-fetch the last synced day itself, since it may have been incomplete
+      const resumeDay = options.full
+        ? store.getFirstCachedDay(type.endpoint)
+        : store.getLastSyncedDay(type.endpoint);
+      const start = fromDay || resumeDay || initialStart;
+
+      try {
+        const count = await syncEndpoint(client, store, type, start, today);
+        store.setLastSyncedDay(type.endpoint, today);
+        console.log(
+          chalk.dim(`${type.name}: ${count} records (${start} → ${today})`)
+        );
+      } catch (e) {
+        failures++;
+        console.warn(
+          chalk.yellow(`Warning: Failed to sync ${type.name}: ${e instanceof Error ? e.message : e}`)
+        );
+      }
+    }
+  } finally {
+    store.close();
+  }
+
+  if (failures > 0) {
+    console.log(chalk.yellow(`\n⚠️  Sync finished with ${failures} failed data type(s).`));
+    process.exit(1);
+  }
+
+  console.log(chalk.green("\n✅ Sync complete!"));
+}
+
+async function syncEndpoint(
+  client: OuraClient,
+  store: Store,
+  type: DataType,
+  start: string,
+  end: string
+): Promise<number> {
+  let count = 0;
+  for await (const page of client.paginateRange(type, start, end)) {
+    store.upsert(type.endpoint, page);
+    count += page.length;
+  }
+  return count;
+}
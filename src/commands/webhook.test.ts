@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { DATA_TYPES } from "../api/registry";
+import type { WebhookEvent } from "../api/types";
+import { formatEventLine, isRecentTimestamp, parseEvent } from "./webhook";
+
+const EVENT: WebhookEvent = {
+  event_type: "update",
+  data_type: "sleep",
+  object_id: "s1",
+  event_time: "2024-01-05T08:00:00+00:00",
+  user_id: "u1",
+};
+
+describe("parseEvent", () => {
+  test("accepts a webhook event", () => {
+    expect(parseEvent(JSON.stringify(EVENT))).toEqual(EVENT);
+  });
+
+  test("rejects invalid JSON and other shapes", () => {
+    expect(parseEvent("{")).toBeNull();
+    expect(parseEvent("null")).toBeNull();
+    expect(parseEvent('"sleep"')).toBeNull();
+    expect(parseEvent(JSON.stringify({ ...EVENT, event_type: "rename" }))).toBeNull();
+    expect(parseEvent(JSON.stringify({ ...EVENT, data_type: "heartrate" }))).toBeNull();
+    expect(parseEvent(JSON.stringify({ ...EVENT, object_id: 1 }))).toBeNull();
+  });
+});
+
+describe("formatEventLine", () => {
+  test("keeps a sleep document's own type field next to the data_type tag", () => {
+    const line = JSON.parse(formatEventLine(DATA_TYPES.sleep_details, EVENT, { id: "s1", type: "long_sleep" }));
+    expect(line).toEqual({ data_type: "sleep_details", event_type: "update", id: "s1", type: "long_sleep" });
+  });
+});
+
+describe("isRecentTimestamp", () => {
+  const now = Date.parse("2024-01-05T08:00:00Z");
+
+  test("accepts Unix seconds, milliseconds and ISO dates within five minutes", () => {
+    expect(isRecentTimestamp(String(now / 1000 - 60), now)).toBe(true);
+    expect(isRecentTimestamp(String(now + 60_000), now)).toBe(true);
+    expect(isRecentTimestamp("2024-01-05T07:56:00Z", now)).toBe(true);
+  });
+
+  test("rejects old, future and unreadable timestamps", () => {
+    expect(isRecentTimestamp(String(now / 1000 - 301), now)).toBe(false);
+    expect(isRecentTimestamp("2024-01-05T08:10:00Z", now)).toBe(false);
+    expect(isRecentTimestamp("yesterday", now)).toBe(false);
+    expect(isRecentTimestamp("", now)).toBe(false);
+  });
+});
@@ -0,0 +1,404 @@
+import { Command, Option, InvalidArgumentError } from "commander";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import chalk from "chalk";
+import { OuraClient } from "../api/client";
+import { getDataTypeByEndpoint, type DataType } from "../api/registry";
+import {
+  WebhookClient,
+  WEBHOOK_DATA_TYPES,
+  WEBHOOK_EVENT_TYPES,
+} from "../api/webhook";
+import { Store } from "../store/store";
+import type { WebhookDataType, WebhookEvent } from "../api/types";
+
+interface CreateOptions {
+  callbackUrl: string;
+  verificationToken: string;
+  eventType: WebhookEvent["event_type"];
+  dataType: WebhookDataType;
+}
+
+interface ListenOptions {
+  port: number;
+  path: string;
+  verificationToken?: string;
+  store?: boolean;
+}
+
+const DEFAULT_LISTEN_PORT = 8080;
+// Notifications are small JSON documents; anything bigger isn't from Oura
+const MAX_BODY_BYTES = 64 * 1024;
+// Older notifications, or ones dated in the future, are treated as replays
+const MAX_TIMESTAMP_AGE_MS = 5 * 60 * 1000;
+
+export function createWebhookCommand(): Command {
+  const webhookCommand = new Command("webhook").description(
+    "Manage webhook subscriptions and receive push notifications"
+  );
+
+  webhookCommand
+    .command("list")
+    .description("List webhook subscriptions of your app")
+    .option("--json", "Print raw JSON")
+    .action(async (options: { json?: boolean }) => {
+      await runWebhookAction(async () => {
+        const client = await WebhookClient.create();
+        const subscriptions = await client.listSubscriptions();
+
+        if (options.json) {
+          console.log(JSON.stringify(subscriptions, null, 2));
+          return;
+        }
+        if (subscriptions.length === 0) {
+          console.log(chalk.dim("No webhook subscriptions. Create one with 'oura webhook create'."));
+          return;
+        }
+
+        for (const subscription of subscriptions) {
+          const expired = new Date(subscription.expiration_time).getTime() < Date.now();
+          console.log(
+            `${chalk.bold(subscription.id)}  ${subscription.data_type}.${subscription.event_type}  ` +
+              `${subscription.callback_url}  ` +
+              (expired
+                ? chalk.red(`expired ${subscription.expiration_time}`)
+                : chalk.dim(`expires ${subscription.expiration_time}`))
+          );
+        }
+      });
+    });
+
+  webhookCommand
+    .command("create")
+    .description("Subscribe a callback URL to changes of one data type")
+    .requiredOption("--callback-url <url>", "Public URL that receives notifications", parseUrl)
+    .requiredOption("--verification-token <token>", "Secret Oura echoes back when verifying the URL")
+    .addOption(
+      new Option("--event-type <type>", "Event to subscribe to")
+        .choices(WEBHOOK_EVENT_TYPES)
+        .makeOptionMandatory()
+    )
+    .addOption(
+      new Option("--data-type <type>", "Data type to subscribe to")
+        .choices(WEBHOOK_DATA_TYPES)
+        .makeOptionMandatory()
+    )
+    .action(async (options: CreateOptions) => {
+      await runWebhookAction(async () => {
+        const client = await WebhookClient.create();
+        const subscription = await client.createSubscription({
+          callback_url: options.callbackUrl,
+          verification_token: options.verificationToken,
+          event_type: options.eventType,
+          data_type: options.dataType,
+        });
+        console.log(chalk.green(`✓ Created subscription ${subscription.id}`));
+        console.log(chalk.dim(`  Expires ${subscription.expiration_time}; renew it with 'oura webhook renew'.`));
+      });
+    });
+
+  webhookCommand
+    .command("renew <id>")
+    .description("Extend the expiration of a subscription")
+    .action(async (id: string) => {
+      await runWebhookAction(async () => {
+        const client = await WebhookClient.create();
+        const subscription = await client.renewSubscription(id);
+        console.log(chalk.green(`✓ Renewed subscription ${id} until ${subscription.expiration_time}`));
+      });
+    });
+
+  webhookCommand
+    .command("delete <id>")
+    .description("Delete a subscription")
+    .action(async (id: string) => {
+      await runWebhookAction(async () => {
+        const client = await WebhookClient.create();
+        await client.deleteSubscription(id);
+        console.log(chalk.green(`✓ Deleted subscription ${id}`));
+      });
+    });
+
+  webhookCommand
+    .command("listen")
+    .description("Receive notifications and print the changed documents as NDJSON")
+    .option("--port <port>", `Local port to listen on (default: ${DEFAULT_LISTEN_PORT})`, parsePort, DEFAULT_LISTEN_PORT)
+    .option("--path <path>", "Path notifications are posted to", "/webhook")
+    .option(
+      "--verification-token <token>",
+      "Token given to 'oura webhook create' (default: OURA_WEBHOOK_TOKEN)"
+    )
+    .option("--store", "Save documents to the local cache instead of printing them")
+    .action(async (options: ListenOptions) => {
+      await runWebhookAction(() => listen(options));
+    });
+
+  return webhookCommand;
+}
+
+/**
+ * Serve the callback URL until interrupted. Oura verifies the URL with a GET
+ * carrying the verification token and a challenge to echo back, then POSTs
+ * a signed event for every change.
+ */
+async function listen(options: ListenOptions): Promise<void> {
+  const verificationToken = options.verificationToken || process.env.OURA_WEBHOOK_TOKEN;
+  const webhooks = await WebhookClient.create();
+  const client = await OuraClient.create();
+  const store = options.store ? await Store.open() : null;
+
+  // Handle events one at a time so output and cache writes stay in order
+  let queue = Promise.resolve();
+
+  const server = createServer(async (req, res) => {
+    try {
+      await respond(req, res);
+    } catch (error) {
+      console.error(
+        chalk.yellow("Warning: Failed to handle a webhook request:"),
+        error instanceof Error ? error.message : error
+      );
+      if (!res.headersSent) {
+        res.writeHead(500, { "Content-Type": "text/plain" });
+      }
+      res.end("Internal error");
+    }
+  });
+
+  async function respond(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "", `http://${req.headers.host}`);
+
+    if (url.pathname !== options.path) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found");
+      return;
+    }
+
+    if (req.method === "GET") {
+      const challenge = url.searchParams.get("challenge");
+      if (!verificationToken || url.searchParams.get("verification_token") !== verificationToken || !challenge) {
+        res.writeHead(401, { "Content-Type": "text/plain" });
+        res.end("Invalid verification token");
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ challenge }));
+      console.error(chalk.green("✓ Callback URL verified"));
+      return;
+    }
+
+    if (req.method !== "POST") {
+      res.writeHead(405, { "Content-Type": "text/plain" });
+      res.end("Method not allowed");
+      return;
+    }
+
+    // A client that disconnects mid-body gets a 400 it will likely never see
+    let body: string | null;
+    try {
+      body = await readBody(req, MAX_BODY_BYTES);
+    } catch {
+      res.writeHead(400, { "Content-Type": "text/plain" });
+      res.end("Incomplete request body");
+      return;
+    }
+    if (body === null) {
+      res.writeHead(413, { "Content-Type": "text/plain", Connection: "close" });
+      res.end("Request body too large");
+      return;
+    }
+
+    const signature = req.headers["x-oura-signature"];
+    const timestamp = req.headers["x-oura-timestamp"];
+    if (
+      typeof signature !== "string" ||
+      typeof timestamp !== "string" ||
+      !webhooks.verifySignature(body, timestamp, signature)
+    ) {
+      res.writeHead(401, { "Content-Type": "text/plain" });
+      res.end("Invalid signature");
+      console.error(chalk.yellow("Warning: Ignored a notification with an invalid signature"));
+      return;
+    }
+
+    // The signature covers the timestamp, so a replayed notification keeps
+    // its original one
+    if (!isRecentTimestamp(timestamp, Date.now())) {
+      res.writeHead(401, { "Content-Type": "text/plain" });
+      res.end("Stale timestamp");
+      console.error(chalk.yellow("Warning: Ignored a notification with a stale timestamp"));
+      return;
+    }
+
+    const event = parseEvent(body);
+    if (!event) {
+      res.writeHead(400, { "Content-Type": "text/plain" });
+      res.end("Unrecognized event");
+      return;
+    }
+
+    // Acknowledge right away; fetching the document can take a while
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.end("OK");
+
+    queue = queue.then(() =>
+      handleEvent(event, client, store).catch((error) => {
+        console.error(
+          chalk.yellow(`Warning: Failed to process ${event.data_type} ${event.object_id}:`),
+          error instanceof Error ? error.message : error
+        );
+      })
+    );
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.on("error", (err: NodeJS.ErrnoException) => {
+      if (err.code === "EADDRINUSE") {
+        reject(new Error(`Port ${options.port} is already in use. Choose another port with --port.`));
+      } else {
+        reject(err);
+      }
+    });
+
+    server.listen(options.port, () => {
+      console.error(chalk.cyan(`Listening for webhooks on http://localhost:${options.port}${options.path}`));
+      if (!verificationToken) {
+        console.error(
+          chalk.yellow("No --verification-token given; verification requests will be rejected.")
+        );
+      }
+      console.error(chalk.dim("Press Ctrl+C to stop.\n"));
+    });
+
+    process.once("SIGINT", () => {
+      server.close();
+      queue.then(() => {
+        store?.close();
+        resolve();
+      });
+    });
+  });
+}
+
+// Fetch the changed document and save or print it. Deleted documents can't be
+// fetched, so they are removed from the cache or printed as a stub.
+async function handleEvent(event: WebhookEvent, client: OuraClient, store: Store | null): Promise<void> {
+  // Webhook data types are named after their endpoints
+  const type = getDataTypeByEndpoint(event.data_type)!;
+
+  if (event.event_type === "delete") {
+    if (store) {
+      store.remove(type.endpoint, event.object_id);
+      console.error(chalk.dim(`Removed ${type.name} ${event.object_id}`));
+    } else {
+      console.log(formatEventLine(type, event, { id: event.object_id }));
+    }
+    return;
+  }
+
+  const document = await client.getById(type, event.object_id);
+  if (store) {
+    store.upsert(type.endpoint, [document]);
+    console.error(chalk.dim(`Saved ${type.name} ${event.object_id}`));
+  } else {
+    console.log(formatEventLine(type, event, document as object));
+  }
+}
+
+/**
+ * An event as one NDJSON line. The tag is data_type since sleep and session
+ * documents have a type field of their own.
+ */
+export function formatEventLine(type: DataType, event: WebhookEvent, document: object): string {
+  return JSON.stringify({ data_type: type.key, event_type: event.event_type, ...document });
+}
+
+/**
+ * Parse a notification body, or return null if it isn't a webhook event this
+ * CLI handles
+ */
+export function parseEvent(body: string): WebhookEvent | null {
+  let event: unknown;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  return isWebhookEvent(event) ? event : null;
+}
+
+function isWebhookEvent(value: unknown): value is WebhookEvent {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { event_type, data_type, object_id } = value as Partial<Record<keyof WebhookEvent, unknown>>;
+  return (
+    WEBHOOK_EVENT_TYPES.some((type) => type === event_type) &&
+    WEBHOOK_DATA_TYPES.some((type) => type === data_type) &&
+    typeof object_id === "string"
+  );
+}
+
+/**
+ * Whether an x-oura-timestamp is within a few minutes of `now`. Accepts Unix
+ * seconds or milliseconds and ISO 8601 dates.
+ */
+export function isRecentTimestamp(timestamp: string, now: number): boolean {
+  const seconds = /^\d+(\.\d+)?$/.test(timestamp) ? Number(timestamp) : NaN;
+  // Unix times in seconds stay below 1e11 until the year 5138
+  const time = Number.isNaN(seconds) ? Date.parse(timestamp) : seconds < 1e11 ? seconds * 1000 : seconds;
+  return !Number.isNaN(time) && Math.abs(now - time) <= MAX_TIMESTAMP_AGE_MS;
+}
+
+// Read a request body, or return null as soon as it exceeds maxBytes
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > maxBytes) {
+      resolve(null);
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Discard the rest rather than buffering it
+        req.removeAllListeners("data");
+        req.resume();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+    req.on("aborted", () => reject(new Error("Request aborted")));
+  });
+}
+
+async function runWebhookAction(fn: () => Promise<void>): Promise<void> {
+  try {
+    await fn();
+  } catch (error) {
+    console.error(
+      chalk.red("Error:"),
+      error instanceof Error ? error.message : error
+    );
+    process.exit(1);
+  }
+}
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new InvalidArgumentError("Must be a port number between 1 and 65535.");
+  }
+  return port;
+}
+
+function parseUrl(value: string): string {
+  try {
+    return new URL(value).toString();
+  } catch {
+    throw new InvalidArgumentError("Must be an absolute URL, e.g. https://example.com/webhook");
+  }
+}
@@ -1,7 +1,16 @@
 import { homedir } from "os";
 import { join } from "path";
-import { mkdir, readFile, writeFile } from "fs/promises";
+import { mkdir, readFile } from "fs/promises";
 import { existsSync } from "fs";
+import {
+  createSecretStore,
+  writePrivateFile,
+  SECRET_FIELDS,
+  SECRET_STORE_KINDS,
+  type SecretStore,
+  type SecretStoreKind,
+  type SecretsByProfile,
+} from "./secrets";
 
 export interface Config {
   client_id: string;
@@ -9,11 +18,37 @@ export interface Config {
   access_token: string;
   refresh_token: string;
   expiry: string; // ISO date string
+  // "token" marks a personal access token, which has no refresh token
+  auth_type?: "oauth" | "token";
+  redirect_uri?: string;
+  scopes?: string[];
 }
 
+// On-disk layout: one Config per named profile. The secret fields of each
+// profile live in the secret store, not in config.json.
+interface ConfigFile {
+  default_profile: string;
+  secret_store: SecretStoreKind;
+  profiles: Record<string, Config>;
+}
+
+export const DEFAULT_PROFILE = "default";
+
+const CONFIG_STRING_FIELDS = [
+  "client_id",
+  "client_secret",
+  "access_token",
+  "refresh_token",
+  "expiry",
+  "redirect_uri",
+] as const satisfies ReadonlyArray<keyof Config>;
+
 const CONFIG_DIR = join(homedir(), ".config", "oura-cli");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
 
+// Profile chosen with --profile for this process, if any
+let activeProfileOverride: string | undefined;
+
 export function getConfigDir(): string {
   return CONFIG_DIR;
 }
@@ -22,40 +57,243 @@ export function getConfigPath(): string {
   return CONFIG_FILE;
 }
 
-export async function loadConfig(): Promise<Config> {
-  const defaultConfig: Config = {
+/**
+ * The backend currently holding client secrets and tokens
+ */
+export async function getSecretStore(): Promise<SecretStore> {
+  const file = await readConfigFile({ secrets: false });
+  return createSecretStore(file.secret_store, CONFIG_DIR);
+}
+
+/**
+ * Move every profile's secrets to a different backend
+ */
+export async function setSecretStore(kind: SecretStoreKind): Promise<void> {
+  const file = await readConfigFile();
+  if (file.secret_store === kind) {
+    return;
+  }
+
+  const previous = createSecretStore(file.secret_store, CONFIG_DIR);
+  file.secret_store = kind;
+  await writeConfigFile(file);
+  await previous.remove();
+}
+
+/**
+ * Select the profile used by loadConfig/saveConfig for the rest of the process
+ */
+export function setActiveProfile(name: string | undefined): void {
+  if (name !== undefined) {
+    validateProfileName(name);
+  }
+  activeProfileOverride = name;
+}
+
+/**
+ * Resolve the active profile: --profile, then OURA_PROFILE, then the
+ * configured default profile.
+ */
+export async function getActiveProfile(): Promise<string> {
+  const name = activeProfileOverride || process.env.OURA_PROFILE;
+  if (name) {
+    validateProfileName(name);
+    return name;
+  }
+  const file = await readConfigFile({ secrets: false });
+  return file.default_profile;
+}
+
+export async function loadConfig(profile?: string): Promise<Config> {
+  const file = await readConfigFile();
+  const name = profile ?? (await getActiveProfile());
+  return { ...emptyConfig(), ...file.profiles[name] };
+}
+
+export async function saveConfig(config: Config, profile?: string): Promise<void> {
+  const file = await readConfigFile();
+  const name = profile ?? (await getActiveProfile());
+
+  file.profiles[name] = config;
+  // The first profile saved becomes the default
+  if (!file.profiles[file.default_profile]) {
+    file.default_profile = name;
+  }
+
+  await writeConfigFile(file);
+}
+
+export async function listProfiles(): Promise<{ defaultProfile: string; profiles: Record<string, Config> }> {
+  const file = await readConfigFile();
+  return { defaultProfile: file.default_profile, profiles: file.profiles };
+}
+
+export async function setDefaultProfile(name: string): Promise<void> {
+  const file = await readConfigFile();
+  if (!file.profiles[name]) {
+    throw new Error(`Profile '${name}' does not exist.`);
+  }
+  file.default_profile = name;
+  await writeConfigFile(file);
+}
+
+export async function removeProfile(name: string): Promise<void> {
+  const file = await readConfigFile();
+  if (!file.profiles[name]) {
+    throw new Error(`Profile '${name}' does not exist.`);
+  }
+  delete file.profiles[name];
+  if (file.default_profile === name) {
+    file.default_profile = Object.keys(file.profiles)[0] ?? DEFAULT_PROFILE;
+  }
+  await writeConfigFile(file);
+}
+
+export function isTokenExpired(config: Config): boolean {
+  if (!config.expiry) {
+    return true;
+  }
+  const expiryDate = new Date(config.expiry);
+  // Consider token expired if it expires within 5 minutes
+  return expiryDate.getTime() - Date.now() < 5 * 60 * 1000;
+}
+
+function emptyConfig(): Config {
+  return {
     client_id: "",
     client_secret: "",
     access_token: "",
     refresh_token: "",
     expiry: "",
   };
+}
+
+function validateProfileName(name: string): void {
+  if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+    throw new Error(
+      `Invalid profile name '${name}'. Use letters, numbers, '-' and '_' only.`
+    );
+  }
+}
+
+/**
+ * Rewrite config.json once in the current layout: move a single-account file
+ * into a "default" profile and secrets kept inline into the secret store.
+ * Reads never write; this runs before each command.
+ */
+export async function migrateConfig(): Promise<void> {
+  const { file, outdated } = await parseConfigFile();
+  if (outdated) {
+    mergeSecrets(file, await createSecretStore(file.secret_store, CONFIG_DIR).load());
+    await writeConfigFile(file);
+  }
+}
 
+async function readConfigFile(options: { secrets?: boolean } = {}): Promise<ConfigFile> {
+  const { file, outdated } = await parseConfigFile();
+  // Inline secrets of an outdated file stay in use until migrateConfig moves them
+  if (options.secrets !== false || outdated) {
+    mergeSecrets(file, await createSecretStore(file.secret_store, CONFIG_DIR).load());
+  }
+  return file;
+}
+
+// The config file in the current layout, and whether it is stored in an older one
+async function parseConfigFile(): Promise<{ file: ConfigFile; outdated: boolean }> {
+  const empty: ConfigFile = { default_profile: DEFAULT_PROFILE, secret_store: "file", profiles: {} };
+
+  let raw: unknown;
   try {
     if (!existsSync(CONFIG_FILE)) {
-      return defaultConfig;
+      return { file: empty, outdated: false };
     }
-    const content = await readFile(CONFIG_FILE, "utf-8");
-    return { ...defaultConfig, ...JSON.parse(content) };
+    raw = JSON.parse(await readFile(CONFIG_FILE, "utf-8"));
   } catch {
-    return defaultConfig;
+    return { file: empty, outdated: false };
+  }
+  if (!isObject(raw)) {
+    return { file: empty, outdated: false };
   }
+
+  let file: ConfigFile;
+  if (isObject(raw.profiles)) {
+    const profiles: Record<string, Config> = {};
+    for (const [name, profile] of Object.entries(raw.profiles)) {
+      profiles[name] = toConfig(profile);
+    }
+    file = {
+      default_profile: typeof raw.default_profile === "string" && raw.default_profile ? raw.default_profile : DEFAULT_PROFILE,
+      secret_store: isSecretStoreKind(raw.secret_store) ? raw.secret_store : "file",
+      profiles,
+    };
+  } else {
+    // The single-account layout becomes a "default" profile
+    file = {
+      default_profile: DEFAULT_PROFILE,
+      secret_store: "file",
+      profiles: { [DEFAULT_PROFILE]: toConfig(raw) },
+    };
+  }
+
+  // Older files kept secrets inline in config.json instead of the store
+  const hasInlineSecrets = Object.values(file.profiles).some((profile) =>
+    SECRET_FIELDS.some((field) => profile[field])
+  );
+  return { file, outdated: !isSecretStoreKind(raw.secret_store) || hasInlineSecrets };
 }
 
-export async function saveConfig(config: Config): Promise<void> {
+// Keep the known fields of a stored profile, dropping anything mistyped
+function toConfig(value: unknown): Config {
+  const config = emptyConfig();
+  if (!isObject(value)) {
+    return config;
+  }
+  for (const field of CONFIG_STRING_FIELDS) {
+    const fieldValue = value[field];
+    if (typeof fieldValue === "string") {
+      config[field] = fieldValue;
+    }
+  }
+  if (value.auth_type === "oauth" || value.auth_type === "token") {
+    config.auth_type = value.auth_type;
+  }
+  if (Array.isArray(value.scopes)) {
+    config.scopes = value.scopes.filter((scope): scope is string => typeof scope === "string");
+  }
+  return config;
+}
+
+function isSecretStoreKind(value: unknown): value is SecretStoreKind {
+  return SECRET_STORE_KINDS.some((kind) => kind === value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function writeConfigFile(file: ConfigFile): Promise<void> {
   // Create config directory if it doesn't exist
   if (!existsSync(CONFIG_DIR)) {
-    await mkdir(CONFIG_DIR, { recursive: true });
+    await mkdir(CONFIG_DIR, { recursive: true, mode: 0o700 });
   }
 
-  await writeFile(CONFIG_FILE, JSON.stringify(config, null, 2), "utf-8");
+  const secrets: SecretsByProfile = {};
+  const profiles: Record<string, Partial<Config>> = {};
+  for (const [name, profile] of Object.entries(file.profiles)) {
+    const { client_secret, access_token, refresh_token, ...rest } = profile;
+    secrets[name] = { client_secret, access_token, refresh_token };
+    profiles[name] = rest;
+  }
+
+  await createSecretStore(file.secret_store, CONFIG_DIR).save(secrets);
+  await writePrivateFile(CONFIG_FILE, JSON.stringify({ ...file, profiles }, null, 2));
 }
 
-export function isTokenExpired(config: Config): boolean {
-  if (!config.expiry) {
-    return true;
+// Fill in secret fields from the store, keeping any inline values it lacks
+function mergeSecrets(file: ConfigFile, secrets: SecretsByProfile): void {
+  for (const [name, profile] of Object.entries(file.profiles)) {
+    for (const field of SECRET_FIELDS) {
+      profile[field] = secrets[name]?.[field] || profile[field] || "";
+    }
   }
-  const expiryDate = new Date(config.expiry);
-  // Consider token expired if it expires within 5 minutes
-  return expiryDate.getTime() - Date.now() < 5 * 60 * 1000;
 }
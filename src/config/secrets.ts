@@ -0,0 +1,180 @@
+import { join } from "path";
+import { readFile, writeFile, chmod, rm, stat } from "fs/promises";
+import { existsSync } from "fs";
+import { randomBytes, scryptSync, createCipheriv, createDecipheriv } from "crypto";
+import { password } from "@inquirer/prompts";
+
+export const SECRET_STORE_KINDS = ["file", "encrypted"] as const;
+export type SecretStoreKind = (typeof SECRET_STORE_KINDS)[number];
+
+// Config fields that never get written to config.json
+export const SECRET_FIELDS = ["client_secret", "access_token", "refresh_token"] as const;
+export type SecretField = (typeof SECRET_FIELDS)[number];
+export type ProfileSecrets = Partial<Record<SecretField, string>>;
+export type SecretsByProfile = Record<string, ProfileSecrets>;
+
+/**
+ * Backend holding the secret fields of every profile
+ */
+export interface SecretStore {
+  readonly kind: SecretStoreKind;
+  readonly path: string;
+  load(): Promise<SecretsByProfile>;
+  save(secrets: SecretsByProfile): Promise<void>;
+  remove(): Promise<void>;
+}
+
+export function createSecretStore(kind: SecretStoreKind, configDir: string): SecretStore {
+  switch (kind) {
+    case "file":
+      return new FileSecretStore(join(configDir, "secrets.json"));
+    case "encrypted":
+      return new EncryptedSecretStore(join(configDir, "secrets.enc"));
+  }
+}
+
+/**
+ * Write a file readable only by the current user, tightening the mode of
+ * files that already exist too.
+ */
+export async function writePrivateFile(path: string, contents: string): Promise<void> {
+  await writeFile(path, contents, { encoding: "utf-8", mode: 0o600 });
+  await chmod(path, 0o600);
+}
+
+/**
+ * Permission bits of a file, or null if it doesn't exist
+ */
+export async function getFileMode(path: string): Promise<number | null> {
+  try {
+    return (await stat(path)).mode & 0o777;
+  } catch {
+    return null;
+  }
+}
+
+// Plain JSON, protected by 0600 permissions
+class FileSecretStore implements SecretStore {
+  readonly kind = "file";
+
+  constructor(readonly path: string) {}
+
+  async load(): Promise<SecretsByProfile> {
+    if (!existsSync(this.path)) {
+      return {};
+    }
+    return JSON.parse(await readFile(this.path, "utf-8"));
+  }
+
+  async save(secrets: SecretsByProfile): Promise<void> {
+    await writePrivateFile(this.path, JSON.stringify(secrets, null, 2));
+  }
+
+  async remove(): Promise<void> {
+    await rm(this.path, { force: true });
+  }
+}
+
+interface EncryptedPayload {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// AES-256-GCM with a key derived (scrypt) from OURA_CONFIG_KEY or a prompted passphrase
+class EncryptedSecretStore implements SecretStore {
+  readonly kind = "encrypted";
+
+  constructor(readonly path: string) {}
+
+  async load(): Promise<SecretsByProfile> {
+    if (!existsSync(this.path)) {
+      return {};
+    }
+
+    const payload: EncryptedPayload = JSON.parse(await readFile(this.path, "utf-8"));
+    const key = deriveKey(await getPassphrase(), Buffer.from(payload.salt, "base64"));
+
+    try {
+      const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(payload.iv, "base64"));
+      decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(payload.data, "base64")),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString("utf-8"));
+    } catch {
+      throw new Error(
+        `Could not decrypt ${this.path}. Check your passphrase or OURA_CONFIG_KEY.`
+      );
+    }
+  }
+
+  async save(secrets: SecretsByProfile): Promise<void> {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    // Ask twice when choosing a new passphrase, since a typo would lock the file
+    const key = deriveKey(await getPassphrase(!existsSync(this.path)), salt);
+
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(secrets), "utf-8"),
+      cipher.final(),
+    ]);
+
+    const payload: EncryptedPayload = {
+      version: 1,
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    await writePrivateFile(this.path, JSON.stringify(payload, null, 2));
+  }
+
+  async remove(): Promise<void> {
+    await rm(this.path, { force: true });
+  }
+}
+
+// Prompt at most once per process
+let cachedPassphrase: string | undefined;
+
+async function getPassphrase(isNew = false): Promise<string> {
+  if (process.env.OURA_CONFIG_KEY) {
+    return process.env.OURA_CONFIG_KEY;
+  }
+  if (cachedPassphrase) {
+    return cachedPassphrase;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      "Credentials are encrypted. Set OURA_CONFIG_KEY to the passphrase to unlock them."
+    );
+  }
+
+  const passphrase = await password({
+    message: isNew
+      ? "Choose a passphrase for encrypted Oura credentials:"
+      : "Passphrase for encrypted Oura credentials:",
+    mask: "*",
+    validate: (value) => (value ? true : "Passphrase is required"),
+  });
+
+  if (isNew) {
+    await password({
+      message: "Repeat the passphrase:",
+      mask: "*",
+      validate: (value) => (value === passphrase ? true : "Passphrases do not match"),
+    });
+  }
+
+  cachedPassphrase = passphrase;
+  return passphrase;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
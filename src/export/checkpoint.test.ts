@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { DATA_TYPES } from "../api/registry";
+import { ExportCheckpoint } from "./checkpoint";
+
+const RANGE = { start: "2024-01-01", end: "2024-02-29" };
+const CHUNKS = [
+  { start: "2024-01-01", end: "2024-01-30" },
+  { start: "2024-01-31", end: "2024-02-29" },
+];
+
+let dir: string;
+let output: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "oura-checkpoint-"));
+  output = path.join(dir, "export.json");
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function* pages(...batches: unknown[][]): AsyncGenerator<unknown[]> {
+  yield* batches;
+}
+
+async function readAll(checkpoint: ExportCheckpoint, chunk: (typeof CHUNKS)[number]): Promise<unknown[]> {
+  const documents: unknown[] = [];
+  for await (const page of checkpoint.readPart(DATA_TYPES.sleep, chunk)) {
+    documents.push(...page);
+  }
+  return documents;
+}
+
+describe("ExportCheckpoint", () => {
+  test("records finished parts and survives a reload", async () => {
+    const checkpoint = await ExportCheckpoint.create({ output, format: "json", layout: "single", range: RANGE, chunks: CHUNKS });
+    expect(checkpoint.manifestPath).toBe(`${output}.manifest.json`);
+
+    const records = await checkpoint.writePart(DATA_TYPES.sleep, CHUNKS[0], pages([{ id: "a" }, { id: "b" }], [], [{ id: "c" }]));
+    expect(records).toBe(3);
+
+    const resumed = await ExportCheckpoint.load(checkpoint.manifestPath);
+    expect(resumed.format).toBe("json");
+    expect(resumed.layout).toBe("single");
+    expect(resumed.range).toEqual(RANGE);
+    expect(resumed.chunks).toEqual(CHUNKS);
+    expect(resumed.getDone(DATA_TYPES.sleep, CHUNKS[0])).toBe(3);
+    expect(resumed.getDone(DATA_TYPES.sleep, CHUNKS[1])).toBeNull();
+    expect(await readAll(resumed, CHUNKS[0])).toEqual([{ id: "a" }, { id: "b" }, { id: "c" }]);
+  });
+
+  test("leaves no part behind when fetching fails", async () => {
+    const checkpoint = await ExportCheckpoint.create({ output, format: "json", layout: "single", range: RANGE, chunks: CHUNKS });
+    async function* failing(): AsyncGenerator<unknown[]> {
+      yield [{ id: "a" }];
+      throw new Error("Network down");
+    }
+
+    await expect(checkpoint.writePart(DATA_TYPES.sleep, CHUNKS[1], failing())).rejects.toThrow("Network down");
+    expect(checkpoint.getDone(DATA_TYPES.sleep, CHUNKS[1])).toBeNull();
+    expect(await fs.readdir(checkpoint.partsDir)).toEqual([]);
+    await expect(readAll(checkpoint, CHUNKS[1])).rejects.toThrow("is missing");
+  });
+
+  test("removes the manifest and parts", async () => {
+    const checkpoint = await ExportCheckpoint.create({ output, format: "ndjson", layout: "by-day", range: RANGE, chunks: CHUNKS });
+    await checkpoint.writePart(DATA_TYPES.sleep, CHUNKS[0], pages([{ id: "a" }]));
+    await checkpoint.remove();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  test("rejects files that aren't manifests", async () => {
+    const notManifest = path.join(dir, "other.json");
+    await fs.writeFile(notManifest, JSON.stringify({ version: 2, chunks: [] }));
+    await expect(ExportCheckpoint.load(notManifest)).rejects.toThrow("is not an export manifest");
+    await expect(ExportCheckpoint.load(path.join(dir, "missing.json"))).rejects.toThrow("Could not read export manifest");
+  });
+});
@@ -0,0 +1,222 @@
+import fs from "fs/promises";
+import { createReadStream, existsSync } from "fs";
+import path from "path";
+import { createInterface } from "readline";
+import type { DataType } from "../api/registry";
+import type { OutputFormat } from "../output/format";
+import { getDefaultLayout, type ExportLayout } from "./writers";
+
+// A slice of the export range. Both ends are unset when no range was given,
+// which leaves the range to the API.
+export interface ExportChunk {
+  start?: string;
+  end?: string;
+}
+
+// On-disk manifest, written next to the output while an export is running
+interface Manifest {
+  version: 1;
+  format: OutputFormat;
+  layout: ExportLayout;
+  // Final file or directory
+  output: string;
+  date_range: ExportChunk;
+  chunks: ExportChunk[];
+  // Finished parts: data type key -> chunk start ("all" for whole-range
+  // fetches) -> number of records
+  done: Record<string, Record<string, number>>;
+  created_at: string;
+  updated_at: string;
+}
+
+// Lines read from a part file per page
+const PART_PAGE_SIZE = 1000;
+
+/**
+ * Progress of an export, so that an interrupted one can be resumed. Each data
+ * type and date chunk is fetched into its own part file, written atomically;
+ * the manifest records which parts are done. The output is assembled from the
+ * parts once all of them are.
+ */
+export class ExportCheckpoint {
+  private saving = Promise.resolve();
+
+  private constructor(
+    readonly manifestPath: string,
+    private manifest: Manifest
+  ) {}
+
+  static async create(options: {
+    output: string;
+    format: OutputFormat;
+    layout: ExportLayout;
+    range: ExportChunk;
+    chunks: ExportChunk[];
+  }): Promise<ExportCheckpoint> {
+    const now = new Date().toISOString();
+    const checkpoint = new ExportCheckpoint(`${options.output}.manifest.json`, {
+      version: 1,
+      format: options.format,
+      layout: options.layout,
+      output: options.output,
+      date_range: options.range,
+      chunks: options.chunks,
+      done: {},
+      created_at: now,
+      updated_at: now,
+    });
+    await fs.rm(checkpoint.partsDir, { recursive: true, force: true });
+    await fs.mkdir(checkpoint.partsDir, { recursive: true });
+    await checkpoint.save();
+    return checkpoint;
+  }
+
+  static async load(manifestPath: string): Promise<ExportCheckpoint> {
+    let manifest: Manifest;
+    try {
+      manifest = JSON.parse(await fs.readFile(manifestPath, "utf-8"));
+    } catch {
+      throw new Error(`Could not read export manifest '${manifestPath}'.`);
+    }
+    if (manifest.version !== 1 || !Array.isArray(manifest.chunks)) {
+      throw new Error(`'${manifestPath}' is not an export manifest.`);
+    }
+
+    const checkpoint = new ExportCheckpoint(path.resolve(manifestPath), manifest);
+    await fs.mkdir(checkpoint.partsDir, { recursive: true });
+    return checkpoint;
+  }
+
+  get format(): OutputFormat {
+    return this.manifest.format;
+  }
+
+  // Manifests from before layouts were added are in the default layout
+  get layout(): ExportLayout {
+    return this.manifest.layout ?? getDefaultLayout(this.manifest.format);
+  }
+
+  get output(): string {
+    return this.manifest.output;
+  }
+
+  get range(): ExportChunk {
+    return this.manifest.date_range;
+  }
+
+  get chunks(): ExportChunk[] {
+    return this.manifest.chunks;
+  }
+
+  get createdAt(): string {
+    return this.manifest.created_at;
+  }
+
+  get partsDir(): string {
+    return `${this.manifest.output}.parts`;
+  }
+
+  /**
+   * Records in a finished part, or null if it still has to be fetched
+   */
+  getDone(type: DataType, chunk: ExportChunk): number | null {
+    return this.manifest.done[type.key]?.[chunkId(chunk)] ?? null;
+  }
+
+  /**
+   * Stream pages into a part file, then record it as done. The part only
+   * appears under its final name once it's complete.
+   */
+  async writePart(
+    type: DataType,
+    chunk: ExportChunk,
+    pages: AsyncIterable<unknown[]>
+  ): Promise<number> {
+    const partPath = this.partPath(type, chunk);
+    const tempPath = `${partPath}.tmp`;
+    const handle = await fs.open(tempPath, "w");
+
+    let records = 0;
+    try {
+      for await (const page of pages) {
+        if (page.length > 0) {
+          await handle.write(page.map((item) => JSON.stringify(item)).join("\n") + "\n");
+          records += page.length;
+        }
+      }
+    } catch (error) {
+      await handle.close();
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    await handle.close();
+    await fs.rename(tempPath, partPath);
+    await this.markDone(type, chunk, records);
+    return records;
+  }
+
+  /**
+   * Read a finished part back, a page at a time
+   */
+  async *readPart(type: DataType, chunk: ExportChunk): AsyncGenerator<unknown[]> {
+    const partPath = this.partPath(type, chunk);
+    if (!existsSync(partPath)) {
+      throw new Error(`Export part '${partPath}' is missing. Start the export again.`);
+    }
+
+    const lines = createInterface({ input: createReadStream(partPath, "utf-8"), crlfDelay: Infinity });
+    let page: unknown[] = [];
+    for await (const line of lines) {
+      if (!line) continue;
+      page.push(JSON.parse(line));
+      if (page.length >= PART_PAGE_SIZE) {
+        yield page;
+        page = [];
+      }
+    }
+    if (page.length > 0) {
+      yield page;
+    }
+  }
+
+  // Delete the manifest and parts once the output is complete
+  async remove(): Promise<void> {
+    await this.saving;
+    await fs.rm(this.partsDir, { recursive: true, force: true });
+    await fs.rm(this.manifestPath, { force: true });
+  }
+
+  private async markDone(type: DataType, chunk: ExportChunk, records: number): Promise<void> {
+    this.manifest.done[type.key] ??= {};
+    this.manifest.done[type.key][chunkId(chunk)] = records;
+    await this.save();
+  }
+
+  // Parts finish concurrently; saves are queued so they never overlap
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      this.manifest.updated_at = new Date().toISOString();
+      await writeFileAtomic(this.manifestPath, JSON.stringify(this.manifest, null, 2));
+    });
+    return this.saving;
+  }
+
+  private partPath(type: DataType, chunk: ExportChunk): string {
+    return path.join(this.partsDir, `${chunkId(chunk)}.${type.key}.ndjson`);
+  }
+}
+
+/**
+ * Replace a file in one step: write a temporary file next to it, then rename
+ * it over the original, so readers never see a half-written file
+ */
+export async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, contents);
+  await fs.rename(tempPath, filePath);
+}
+
+function chunkId(chunk: ExportChunk): string {
+  return chunk.start ?? "all";
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { DATA_TYPES } from "../api/registry";
+import type { OutputFormat } from "../output/format";
+import { readExportDocuments } from "./reader";
+import { createExportWriter, type ExportLayout } from "./writers";
+
+const SLEEP = [
+  { id: "s1", day: "2024-01-05", type: "long_sleep" },
+  { id: "s2", day: "2024-01-06", type: "rest" },
+];
+const READINESS = [{ id: "r1", day: "2024-01-05", score: 82 }];
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "oura-reader-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writeExport(format: OutputFormat, layout: ExportLayout, name: string): Promise<string> {
+  const output = path.join(dir, name);
+  const writer = await createExportWriter(format, layout, output, { version: "test" });
+  await writer.writePage(DATA_TYPES.sleep_details, SLEEP);
+  await writer.writePage(DATA_TYPES.readiness, READINESS);
+  await writer.close();
+  return output;
+}
+
+describe("readExportDocuments", () => {
+  const layouts: Array<[OutputFormat, ExportLayout, string]> = [
+    ["json", "single", "export.json"],
+    ["ndjson", "single", "export.ndjson"],
+    ["json", "by-day", "by-day-json"],
+    ["ndjson", "by-day", "by-day-ndjson"],
+    ["json", "by-type", "by-type-json"],
+    ["ndjson", "by-type", "by-type-ndjson"],
+  ];
+
+  for (const [format, layout, name] of layouts) {
+    test(`reads ${format} ${layout} exports`, async () => {
+      const output = await writeExport(format, layout, name);
+      expect(await readExportDocuments(output, DATA_TYPES.sleep_details)).toEqual(SLEEP);
+      expect(await readExportDocuments(output, DATA_TYPES.readiness)).toEqual(READINESS);
+      expect(await readExportDocuments(output, DATA_TYPES.stress)).toEqual([]);
+    });
+  }
+
+  test("refuses CSV exports", async () => {
+    const output = await writeExport("csv", "by-type", "csv");
+    await expect(readExportDocuments(output, DATA_TYPES.readiness)).rejects.toThrow("can't be read back");
+  });
+
+  test("refuses files that aren't exports", async () => {
+    const file = path.join(dir, "other.json");
+    await fs.writeFile(file, "[1, 2]");
+    await expect(readExportDocuments(file, DATA_TYPES.readiness)).rejects.toThrow("is not an oura JSON export");
+    await expect(readExportDocuments(path.join(dir, "missing.json"), DATA_TYPES.readiness)).rejects.toThrow("not found");
+  });
+});
@@ -0,0 +1,111 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import { createInterface } from "readline";
+import type { DataType } from "../api/registry";
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Read the documents of one data type back from an `oura export`: a single
+ * JSON or NDJSON file, or a by-day or by-type directory with its index.json.
+ * CSV and TSV exports are flattened and can't be read back.
+ */
+export async function readExportDocuments(exportPath: string, type: DataType): Promise<unknown[]> {
+  const stat = await fs.stat(exportPath).catch(() => {
+    throw new Error(`Export '${exportPath}' not found.`);
+  });
+
+  if (!stat.isDirectory()) {
+    return exportPath.endsWith(".ndjson")
+      ? readTaggedLines(exportPath, type)
+      : documentsInDays(exportPath, await readJson(exportPath), type);
+  }
+
+  const index = await readJson(path.join(exportPath, "index.json"));
+  if (!isObject(index)) {
+    throw new Error(`'${exportPath}' is not an oura export directory.`);
+  }
+  const format = index.format;
+  if (format === "csv" || format === "tsv") {
+    throw new Error(`Export '${exportPath}' is ${format.toUpperCase()}, which can't be read back. Export as JSON or NDJSON.`);
+  }
+
+  if (index.layout === "by-type") {
+    const entry = isObject(index.types) ? index.types[type.key] : undefined;
+    if (!isObject(entry) || typeof entry.file !== "string") {
+      return [];
+    }
+    const file = path.join(exportPath, entry.file);
+    return format === "ndjson" ? readLines(file) : toArray(await readJson(file));
+  }
+
+  if (index.layout === "by-day") {
+    const files = [...(isObject(index.days) ? Object.values(index.days) : []), index.unknown_date]
+      .filter((file): file is string => typeof file === "string");
+    const documents: unknown[] = [];
+    for (const file of files) {
+      const dayPath = path.join(exportPath, file);
+      documents.push(
+        ...(format === "ndjson" ? await readTaggedLines(dayPath, type) : documentsOf(await readJson(dayPath), type))
+      );
+    }
+    return documents;
+  }
+
+  throw new Error(`'${exportPath}' is not an oura export directory.`);
+}
+
+// Single-file JSON exports group documents by day under `data`
+function documentsInDays(filePath: string, exported: unknown, type: DataType): unknown[] {
+  if (!isObject(exported) || !isObject(exported.data)) {
+    throw new Error(`'${filePath}' is not an oura JSON export.`);
+  }
+  return Object.values(exported.data).flatMap((day) => documentsOf(day, type));
+}
+
+// The documents of a data type in a { type: [...] } group of one day
+function documentsOf(group: unknown, type: DataType): unknown[] {
+  const documents = isObject(group) ? group[type.key] : undefined;
+  return Array.isArray(documents) ? documents : [];
+}
+
+// NDJSON lines of one data type, without the data_type tag the export adds
+async function readTaggedLines(filePath: string, type: DataType): Promise<unknown[]> {
+  return (await readLines(filePath))
+    .filter((line): line is JsonObject => isObject(line) && "data_type" in line && line.data_type === type.key)
+    .map(({ data_type: _, ...document }) => document);
+}
+
+async function readLines(filePath: string): Promise<unknown[]> {
+  const lines = createInterface({ input: createReadStream(filePath, "utf-8"), crlfDelay: Infinity });
+  const documents: unknown[] = [];
+  for await (const line of lines) {
+    if (line) {
+      documents.push(JSON.parse(line));
+    }
+  }
+  return documents;
+}
+
+async function readJson(filePath: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, "utf-8");
+  } catch {
+    throw new Error(`Could not read '${filePath}'.`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`'${filePath}' is not valid JSON.`);
+  }
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
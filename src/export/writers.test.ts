@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { DATA_TYPES } from "../api/registry";
+import { createExportWriter } from "./writers";
+
+const SLEEP = { id: "s1", day: "2024-01-05", type: "long_sleep", bedtime_start: "2024-01-04T23:00:00+00:00" };
+const SESSION = { id: "m1", day: "2024-01-05", type: "meditation", start_datetime: "2024-01-05T08:00:00+00:00" };
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "oura-writers-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function readLines(filePath: string): Promise<Array<Record<string, unknown>>> {
+  const text = await fs.readFile(filePath, "utf-8");
+  return text.trim().split("\n").map((line) => JSON.parse(line));
+}
+
+describe("NDJSON exports", () => {
+  test("tag lines with data_type and keep the document's own type field", async () => {
+    const output = path.join(dir, "export.ndjson");
+    const writer = await createExportWriter("ndjson", "single", output, {});
+    await writer.writePage(DATA_TYPES.sleep_details, [SLEEP]);
+    await writer.writePage(DATA_TYPES.sessions, [SESSION]);
+    await writer.endChunk();
+    await writer.close();
+
+    expect(await readLines(output)).toEqual([
+      { data_type: "sleep_details", ...SLEEP },
+      { data_type: "sessions", ...SESSION },
+    ]);
+  });
+
+  test("tag by-day files the same way", async () => {
+    const output = path.join(dir, "by-day");
+    const writer = await createExportWriter("ndjson", "by-day", output, {});
+    await writer.writePage(DATA_TYPES.sleep_details, [SLEEP]);
+    await writer.close();
+
+    const [line] = await readLines(path.join(output, "2024", "01", "2024-01-05.ndjson"));
+    expect(line.data_type).toBe("sleep_details");
+    expect(line.type).toBe("long_sleep");
+  });
+});
+
+describe("CSV exports", () => {
+  test("cover fields that only show up in later pages", async () => {
+    const output = path.join(dir, "by-type");
+    const writer = await createExportWriter("csv", "by-type", output, {});
+    await writer.writePage(DATA_TYPES.tags, [{ id: "t1", day: "2024-01-05", text: "coffee" }]);
+    await writer.endChunk();
+    await writer.writePage(DATA_TYPES.tags, [{ id: "t2", day: "2024-01-06", text: "late", extra_note: "x,y" }]);
+    await writer.close();
+
+    const [header, ...rows] = (await fs.readFile(path.join(output, "tags.csv"), "utf-8")).trim().split("\n");
+    const columns = header.split(",");
+    expect(columns).toContain("extra_note");
+    expect(rows).toHaveLength(2);
+    expect(rows[0].split(",")[columns.indexOf("text")]).toBe("coffee");
+    expect(rows[1]).toContain('"x,y"');
+    // The spooled rows are gone
+    expect((await fs.readdir(output)).sort()).toEqual(["index.json", "tags.csv"]);
+  });
+});
@@ -0,0 +1,436 @@
+import fs from "fs/promises";
+import { createReadStream, existsSync, readdirSync, statSync } from "fs";
+import path from "path";
+import { createInterface } from "readline";
+import { ALL_DATA_TYPES, type DataType } from "../api/registry";
+import {
+  flattenRow,
+  formatTableHeader,
+  formatTableRows,
+  getColumns,
+  type OutputFormat,
+} from "../output/format";
+
+// meta.version of every export. 2.0.0 renamed the data type keys after the
+// `oura get` commands and tagged NDJSON lines with data_type.
+export const EXPORT_FORMAT_VERSION = "2.0.0";
+
+// single: one file; by-day: YYYY/MM/YYYY-MM-DD files; by-type: one file per
+// data type. Both directory layouts come with an index.json.
+export const EXPORT_LAYOUTS = ["single", "by-day", "by-type"] as const;
+export type ExportLayout = (typeof EXPORT_LAYOUTS)[number];
+
+/**
+ * Destination of a streaming export. Documents arrive page by page, one date
+ * chunk at a time; a writer may buffer them until the chunk ends, so memory
+ * use is bounded by the chunk rather than the whole date range. Output goes to
+ * a temporary path and is only renamed into place on close.
+ */
+export interface ExportWriter {
+  // File or directory the export is written to
+  readonly path: string;
+  // Documents that aren't tied to a day (personal info, ring configuration)
+  writeStatic(type: DataType, documents: unknown[]): Promise<void>;
+  // A page of documents of a time-series type within the current chunk
+  writePage(type: DataType, documents: unknown[]): Promise<void>;
+  // Every page of the current chunk has been written
+  endChunk(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// CSV and TSV columns differ per data type, so they can't share a file
+export function getDefaultLayout(format: OutputFormat): ExportLayout {
+  return format === "csv" || format === "tsv" ? "by-type" : "single";
+}
+
+export function checkLayout(format: OutputFormat, layout: ExportLayout): void {
+  if ((format === "csv" || format === "tsv") && layout !== "by-type") {
+    throw new Error(`${format.toUpperCase()} exports need the by-type layout, since columns differ per data type.`);
+  }
+}
+
+/**
+ * Where an export is written: a timestamped file (single layout) or directory
+ * in the current directory, unless `output` says otherwise. A single-file
+ * export into an existing directory keeps its timestamped name.
+ */
+export function getExportPath(format: OutputFormat, layout: ExportLayout, output?: string): string {
+  const baseName = `oura_export_${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  const name = layout === "single" ? `${baseName}.${format}` : baseName;
+  if (!output) {
+    return path.join(process.cwd(), name);
+  }
+
+  const isDirectory = existsSync(output) && statSync(output).isDirectory();
+  if (layout === "single") {
+    return isDirectory || output.endsWith(path.sep) ? path.resolve(output, name) : path.resolve(output);
+  }
+  if (isDirectory && readdirSync(output).length > 0) {
+    throw new Error(`Output directory '${output}' already exists and isn't empty.`);
+  }
+  return path.resolve(output);
+}
+
+export async function createExportWriter(
+  format: OutputFormat,
+  layout: ExportLayout,
+  outputPath: string,
+  meta: Record<string, unknown>
+): Promise<ExportWriter> {
+  checkLayout(format, layout);
+  const index = { meta, layout, format };
+
+  switch (layout) {
+    case "single":
+      return format === "json" ? JsonWriter.open(outputPath, meta) : NdjsonWriter.open(outputPath);
+    case "by-day":
+      return ByDayWriter.open(outputPath, format as "json" | "ndjson", index);
+    case "by-type":
+      return ByTypeWriter.open(outputPath, format, index);
+  }
+}
+
+// { meta, <static types>, data: { day: { type: [...] } } }, written one day at a time
+class JsonWriter implements ExportWriter {
+  private days = new DayBuffer();
+  private dataStarted = false;
+
+  private constructor(readonly path: string, private handle: fs.FileHandle) {}
+
+  static async open(filePath: string, meta: Record<string, unknown>): Promise<JsonWriter> {
+    const writer = new JsonWriter(filePath, await fs.open(`${filePath}.tmp`, "w"));
+    await writer.handle.write(`{\n  "meta": ${indentJson(meta, 2)}`);
+    return writer;
+  }
+
+  async writeStatic(type: DataType, documents: unknown[]): Promise<void> {
+    await this.handle.write(`,\n  ${JSON.stringify(type.key)}: ${indentJson(staticValue(type, documents), 2)}`);
+  }
+
+  async writePage(type: DataType, documents: unknown[]): Promise<void> {
+    this.days.add(type, documents);
+  }
+
+  async endChunk(): Promise<void> {
+    for (const [day, group] of this.days.drain()) {
+      await this.writeDay(day, group);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.endChunk();
+    // Items without a clear date, though most should have one
+    if (this.days.undated.size > 0) {
+      await this.writeDay("unknown_date", this.days.undated);
+    }
+    await this.handle.write(this.dataStarted ? "\n  }\n}\n" : `,\n  "data": {}\n}\n`);
+    await this.handle.close();
+    await fs.rename(`${this.path}.tmp`, this.path);
+  }
+
+  private async writeDay(day: string, group: Map<string, unknown[]>): Promise<void> {
+    const prefix = this.dataStarted ? "," : `,\n  "data": {`;
+    this.dataStarted = true;
+    await this.handle.write(`${prefix}\n    ${JSON.stringify(day)}: ${indentJson(inRegistryOrder(group), 4)}`);
+  }
+}
+
+// One JSON object per line, tagged with the data type it came from
+class NdjsonWriter implements ExportWriter {
+  // Pages of different types arrive concurrently; writes to the shared
+  // handle must not overlap
+  private writing = Promise.resolve();
+
+  private constructor(readonly path: string, private handle: fs.FileHandle) {}
+
+  static async open(filePath: string): Promise<NdjsonWriter> {
+    return new NdjsonWriter(filePath, await fs.open(`${filePath}.tmp`, "w"));
+  }
+
+  async writeStatic(type: DataType, documents: unknown[]): Promise<void> {
+    await this.writePage(type, documents);
+  }
+
+  async writePage(type: DataType, documents: unknown[]): Promise<void> {
+    if (documents.length === 0) return;
+    const text = taggedLines(type, documents);
+    this.writing = this.writing.then(async () => {
+      await this.handle.write(text);
+    });
+    await this.writing;
+  }
+
+  async endChunk(): Promise<void> {}
+
+  async close(): Promise<void> {
+    await this.writing;
+    await this.handle.close();
+    await fs.rename(`${this.path}.tmp`, this.path);
+  }
+}
+
+// YYYY/MM/YYYY-MM-DD.json files holding { type: [...] } for that day, or
+// .ndjson files of tagged lines. index.json has the meta, the documents that
+// aren't tied to a day and the file of each day, so a single day can be loaded
+// without reading the rest.
+class ByDayWriter implements ExportWriter {
+  private days = new DayBuffer();
+  private files: Record<string, string> = {};
+  private statics: Record<string, unknown> = {};
+
+  private constructor(
+    readonly path: string,
+    private format: "json" | "ndjson",
+    private index: Record<string, unknown>
+  ) {}
+
+  static async open(
+    dirPath: string,
+    format: "json" | "ndjson",
+    index: Record<string, unknown>
+  ): Promise<ByDayWriter> {
+    await openTempDir(dirPath);
+    return new ByDayWriter(dirPath, format, index);
+  }
+
+  async writeStatic(type: DataType, documents: unknown[]): Promise<void> {
+    this.statics[type.key] = staticValue(type, documents);
+  }
+
+  async writePage(type: DataType, documents: unknown[]): Promise<void> {
+    this.days.add(type, documents);
+  }
+
+  async endChunk(): Promise<void> {
+    for (const [day, group] of this.days.drain()) {
+      const [year, month] = day.split("-");
+      this.files[day] = await this.writeDay(path.join(year, month, day), group);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.endChunk();
+    const unknownDate = this.days.undated.size > 0
+      ? await this.writeDay("unknown_date", this.days.undated)
+      : undefined;
+
+    await writeIndex(this.path, { ...this.index, ...this.statics, days: this.files, unknown_date: unknownDate });
+    await commitDir(this.path);
+  }
+
+  // Write one day's documents and return the file, relative to the export
+  private async writeDay(name: string, group: Map<string, unknown[]>): Promise<string> {
+    const file = `${name}.${this.format}`;
+    const documents = inRegistryOrder(group);
+    const contents = this.format === "json"
+      ? JSON.stringify(documents, null, 2) + "\n"
+      : ALL_DATA_TYPES.filter((type) => documents[type.key])
+          .map((type) => taggedLines(type, documents[type.key]))
+          .join("");
+
+    await fs.mkdir(path.join(`${this.path}.tmp`, path.dirname(file)), { recursive: true });
+    await fs.writeFile(path.join(`${this.path}.tmp`, file), contents);
+    return file;
+  }
+}
+
+interface ByTypeFile {
+  type: DataType;
+  name: string;
+  handle: fs.FileHandle;
+  records: number;
+  // Flattened fields seen so far, for the columns of a CSV/TSV table
+  fields: Set<string>;
+}
+
+function spoolName(name: string): string {
+  return `.${name}.rows`;
+}
+
+// One file per data type: a JSON array, plain NDJSON lines, or a CSV/TSV table.
+// Table rows are spooled as NDJSON until close, since the header has to cover
+// fields that only show up in later pages. index.json has the meta and the
+// file and record count of each type.
+class ByTypeWriter implements ExportWriter {
+  private files = new Map<string, ByTypeFile>();
+  private types: Record<string, { file: string; records: number }> = {};
+
+  private constructor(
+    readonly path: string,
+    private format: OutputFormat,
+    private index: Record<string, unknown>
+  ) {}
+
+  static async open(
+    dirPath: string,
+    format: OutputFormat,
+    index: Record<string, unknown>
+  ): Promise<ByTypeWriter> {
+    await openTempDir(dirPath);
+    return new ByTypeWriter(dirPath, format, index);
+  }
+
+  async writeStatic(type: DataType, documents: unknown[]): Promise<void> {
+    // Single-document endpoints are stored as the document itself
+    if (this.format === "json" && !type.dateParams) {
+      const file = `${type.key}.json`;
+      await fs.writeFile(path.join(`${this.path}.tmp`, file), indentJson(staticValue(type, documents), 0) + "\n");
+      this.types[type.key] = { file, records: documents.length };
+      return;
+    }
+    await this.writePage(type, documents);
+  }
+
+  async writePage(type: DataType, documents: unknown[]): Promise<void> {
+    if (documents.length === 0) return;
+    const rows = documents as Record<string, unknown>[];
+
+    let file = this.files.get(type.key);
+    if (!file) {
+      const name = `${type.key}.${this.format}`;
+      const handle = await fs.open(path.join(`${this.path}.tmp`, this.isTable() ? spoolName(name) : name), "w");
+      if (this.format === "json") {
+        await handle.write("[");
+      }
+      file = { type, name, handle, records: 0, fields: new Set() };
+      this.files.set(type.key, file);
+      this.types[type.key] = { file: name, records: 0 };
+    }
+
+    const written = file.records;
+    switch (this.format) {
+      case "json":
+        await file.handle.write(
+          rows.map((row, i) => (written + i > 0 ? ",\n  " : "\n  ") + indentJson(row, 2)).join("")
+        );
+        break;
+      case "ndjson":
+      case "csv":
+      case "tsv":
+        await file.handle.write(rows.map((row) => JSON.stringify(row)).join("\n") + "\n");
+        break;
+    }
+    if (this.isTable()) {
+      for (const row of rows) {
+        for (const field of Object.keys(flattenRow(row))) {
+          file.fields.add(field);
+        }
+      }
+    }
+    file.records += rows.length;
+    this.types[type.key].records = file.records;
+  }
+
+  async endChunk(): Promise<void> {}
+
+  async close(): Promise<void> {
+    for (const file of this.files.values()) {
+      if (this.format === "json") {
+        await file.handle.write("\n]\n");
+      }
+      await file.handle.close();
+      if (this.isTable()) {
+        await this.writeTable(file);
+      }
+    }
+    await writeIndex(this.path, { ...this.index, types: this.types });
+    await commitDir(this.path);
+  }
+
+  private isTable(): boolean {
+    return this.format === "csv" || this.format === "tsv";
+  }
+
+  // Turn a type's spooled rows into the table, with columns covering every page
+  private async writeTable(file: ByTypeFile): Promise<void> {
+    const format = this.format as "csv" | "tsv";
+    const spoolPath = path.join(`${this.path}.tmp`, spoolName(file.name));
+    const columns = getColumns(file.type.endpoint, [Object.fromEntries([...file.fields].map((field) => [field, null]))]);
+
+    const handle = await fs.open(path.join(`${this.path}.tmp`, file.name), "w");
+    try {
+      await handle.write(formatTableHeader(columns, format) + "\n");
+      const lines = createInterface({ input: createReadStream(spoolPath, "utf-8"), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (line) {
+          await handle.write(formatTableRows([JSON.parse(line)], columns, format)[0] + "\n");
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+    await fs.rm(spoolPath);
+  }
+}
+
+// Documents of the current chunk grouped by day, then by data type
+class DayBuffer {
+  private days = new Map<string, Map<string, unknown[]>>();
+  // Items without a clear date are kept until the end
+  readonly undated = new Map<string, unknown[]>();
+
+  add(type: DataType, documents: unknown[]): void {
+    for (const document of documents) {
+      const day = type.dateKey(document);
+      let group = day ? this.days.get(day) : this.undated;
+      if (!group) {
+        group = new Map();
+        this.days.set(day!, group);
+      }
+      const items = group.get(type.key) ?? [];
+      items.push(document);
+      group.set(type.key, items);
+    }
+  }
+
+  // Take the buffered days, in date order
+  drain(): Array<[string, Map<string, unknown[]>]> {
+    const days = [...this.days.entries()].sort(([a], [b]) => a.localeCompare(b));
+    this.days.clear();
+    return days;
+  }
+}
+
+// Keep data types in registry order, whatever order their pages arrived in
+function inRegistryOrder(group: Map<string, unknown[]>): Record<string, unknown[]> {
+  const value: Record<string, unknown[]> = {};
+  for (const type of ALL_DATA_TYPES) {
+    const items = group.get(type.key);
+    if (items) {
+      value[type.key] = items;
+    }
+  }
+  return value;
+}
+
+// Single-document endpoints are stored as the document itself
+function staticValue(type: DataType, documents: unknown[]): unknown {
+  return type.dateParams ? documents : documents[0] ?? null;
+}
+
+// The tag is data_type since sleep and session documents have a type field
+// of their own
+function taggedLines(type: DataType, documents: unknown[]): string {
+  return documents.map((document) => JSON.stringify({ data_type: type.key, ...(document as object) })).join("\n") + "\n";
+}
+
+// Directory exports are built under <path>.tmp and renamed into place on
+// close. Whatever an interrupted run left behind is cleared first.
+async function openTempDir(dirPath: string): Promise<void> {
+  await fs.rm(`${dirPath}.tmp`, { recursive: true, force: true });
+  await fs.mkdir(`${dirPath}.tmp`, { recursive: true });
+}
+
+// Renaming only replaces an empty directory, so existing files are never lost
+async function commitDir(dirPath: string): Promise<void> {
+  await fs.rename(`${dirPath}.tmp`, dirPath);
+}
+
+async function writeIndex(dirPath: string, index: Record<string, unknown>): Promise<void> {
+  await fs.writeFile(path.join(`${dirPath}.tmp`, "index.json"), JSON.stringify(index, null, 2) + "\n");
+}
+
+// Pretty-print a value as nested JSON at the given indentation
+function indentJson(value: unknown, indent: number): string {
+  return JSON.stringify(value, null, 2).replace(/\n/g, "\n" + " ".repeat(indent));
+}
@@ -2,21 +2,56 @@
 import { Command } from "commander";
 import { createAuthCommand } from "./commands/auth";
 import { createGetCommand } from "./commands/get";
+import { createSummaryCommand } from "./commands/summary";
+import { createStatsCommand } from "./commands/stats";
 import { createExportCommand } from "./commands/export";
 import { createUpdateCommand } from "./commands/update";
+import { createSyncCommand } from "./commands/sync";
+import { createProfileCommand } from "./commands/profile";
+import { createWebhookCommand } from "./commands/webhook";
+import { createCompletionCommand } from "./commands/completion";
+import { migrateConfig, setActiveProfile } from "./config/config";
+import { setValidationMode } from "./api/validate";
+import { setSandboxMode } from "./api/client";
+import { setTimezone } from "./utils/dates";
 
 const program = new Command();
 
 program
   .name("oura")
   .description("CLI tool for accessing Oura Ring data")
-  .version("1.0.0");
+  .version("1.0.0")
+  .option("-p, --profile <name>", "Profile to use (default: OURA_PROFILE or the configured default)")
+  .option("--strict", "Fail when an API response doesn't match the expected schema")
+  .option("--sandbox", "Use the Oura sandbox API, which serves fake data (or set OURA_SANDBOX=1)")
+  .option("--tz <zone>", "Timezone for dates such as 'today' (default: OURA_TZ or the system timezone)")
+  .hook("preAction", async (thisCommand) => {
+    try {
+      setActiveProfile(thisCommand.opts().profile);
+      if (thisCommand.opts().strict) {
+        setValidationMode("strict");
+      }
+      if (thisCommand.opts().sandbox) {
+        setSandboxMode(true);
+      }
+      setTimezone(thisCommand.opts().tz);
+      await migrateConfig();
+    } catch (error) {
+      thisCommand.error(error instanceof Error ? error.message : String(error));
+    }
+  });
 
 // Add commands
 program.addCommand(createAuthCommand());
 program.addCommand(createGetCommand());
+program.addCommand(createSummaryCommand());
+program.addCommand(createStatsCommand());
 program.addCommand(createExportCommand());
+program.addCommand(createSyncCommand());
+program.addCommand(createProfileCommand());
+program.addCommand(createWebhookCommand());
+program.addCommand(createCompletionCommand());
 program.addCommand(createUpdateCommand());
 
-// Parse arguments
-program.parse();
+// Parse arguments; parseAsync so the preAction hook finishes before any action
+await program.parseAsync();
@@ -0,0 +1,355 @@
+import chalk from "chalk";
+import { toRows } from "./format";
+import { colorScore } from "./table";
+import { addDays, formatDay, getTimezone } from "../utils/dates";
+
+export const CHART_STYLES = ["sparkline", "block", "braille"] as const;
+export type ChartStyle = (typeof CHART_STYLES)[number];
+
+type Row = Record<string, unknown>;
+
+interface ChartLayout {
+  label: string;
+  unit: string;
+  // Scores are coloured by Oura's score bands
+  score: boolean;
+  // Rows whose value isn't a number are left out of the chart
+  value: (row: Row) => unknown;
+  // Instant of a sample; daily series are placed by their day instead
+  time?: (row: Row) => unknown;
+}
+
+// What --chart plots for each endpoint
+const CHARTS: Record<string, ChartLayout> = {
+  heartrate: { label: "Heart rate", unit: "bpm", score: false, value: (row) => row.bpm, time: (row) => row.timestamp },
+  daily_sleep: { label: "Sleep score", unit: "", score: true, value: (row) => row.score },
+  daily_activity: { label: "Activity score", unit: "", score: true, value: (row) => row.score },
+  daily_readiness: { label: "Readiness score", unit: "", score: true, value: (row) => row.score },
+  vO2_max: { label: "VO2 max", unit: "ml/kg/min", score: false, value: (row) => row.vo2_max },
+};
+
+const DAY_MS = 86400000;
+// Rows of block and braille charts
+const CHART_HEIGHT = 8;
+const SPARK_LEVELS = "▁▂▃▄▅▆▇█";
+// Widest a day gets in a short daily series, in columns
+const MAX_DAY_COLUMNS = 3;
+const MAX_LISTED_TAGS = 10;
+
+interface ChartPoint {
+  time: number;
+  value: number;
+}
+
+export interface ChartSeries {
+  label: string;
+  unit: string;
+  score: boolean;
+  daily: boolean;
+  points: ChartPoint[];
+  // First and last day with data, for looking up rest mode and tags
+  start: string;
+  end: string;
+}
+
+// Days to mark under a chart
+export interface ChartMarkers {
+  restMode: Set<string>;
+  tags: Map<string, string[]>;
+}
+
+// A slice of the time axis shown as one column (or braille dot column)
+interface Bucket {
+  start: number;
+  end: number;
+  value: number | null;
+}
+
+export function hasChart(endpoint: string): boolean {
+  return endpoint in CHARTS;
+}
+
+/**
+ * The series --chart plots for an API result, in time order, or null if it
+ * has no values
+ */
+export function getChartSeries(result: unknown, endpoint: string): ChartSeries | null {
+  const layout = CHARTS[endpoint];
+  if (!layout) {
+    throw new Error(`No chart layout for '${endpoint}'`);
+  }
+
+  const points = toRows(result)
+    .map((row): ChartPoint | null => {
+      const value = layout.value(row);
+      const instant = layout.time ? layout.time(row) : row.day;
+      const time = typeof instant === "string" ? Date.parse(layout.time ? instant : `${instant}T00:00:00Z`) : NaN;
+      return typeof value === "number" && Number.isFinite(value) && !Number.isNaN(time) ? { time, value } : null;
+    })
+    .filter((point): point is ChartPoint => point !== null)
+    .sort((a, b) => a.time - b.time);
+  if (points.length === 0) {
+    return null;
+  }
+
+  const daily = !layout.time;
+  const dayOf = (time: number) => dayAt(time, daily);
+  return {
+    label: layout.label,
+    unit: layout.unit,
+    score: layout.score,
+    daily,
+    points,
+    start: dayOf(points[0].time),
+    end: dayOf(points.at(-1)!.time),
+  };
+}
+
+/**
+ * Days in rest mode and tagged days, each with its tag names
+ */
+export function getChartMarkers(restModePeriods: Row[], tags: Row[], end: string): ChartMarkers {
+  const markers: ChartMarkers = { restMode: new Set(), tags: new Map() };
+  for (const period of restModePeriods) {
+    if (typeof period.start_day !== "string") {
+      continue;
+    }
+    // A period without an end day is still going on
+    const last = typeof period.end_day === "string" ? period.end_day : end;
+    for (let day = period.start_day; day <= last && day <= end; day = addDays(day, 1)) {
+      markers.restMode.add(day);
+    }
+  }
+  for (const tag of tags) {
+    if (typeof tag.start_day !== "string") {
+      continue;
+    }
+    const names = markers.tags.get(tag.start_day) ?? [];
+    names.push(tagName(tag));
+    markers.tags.set(tag.start_day, names);
+  }
+  return markers;
+}
+
+/**
+ * Render a series as a sparkline, a block chart or a braille line chart,
+ * downsampled to `width` columns, with rows marking rest mode and tagged days
+ */
+export function renderChart(series: ChartSeries, style: ChartStyle, markers: ChartMarkers, width: number): string {
+  const values = series.points.map((point) => point.value);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const title = `📈 ${series.label}${series.unit ? ` (${series.unit})` : ""}`;
+  const count = `${values.length.toLocaleString("en-US")} ${series.daily ? "days" : "samples"}`;
+  const summary = `min ${formatValue(low)} · avg ${formatValue(average)} · max ${formatValue(high)} · ${count}`;
+  const lines = [`${chalk.cyan.bold(title)}  ${chalk.dim(summary)}`, ""];
+
+  // Y-axis labels, padded to one width so the plot lines up
+  const [bottom, top] = niceRange(low, high);
+  const gutter = Math.max(formatValue(top).length, formatValue(bottom).length, "tags".length) + 1;
+  const plotWidth = Math.max(10, width - gutter - 1);
+
+  let buckets: Bucket[];
+  let plot: string[];
+  if (style === "braille") {
+    // Each character holds two dot columns
+    const dots = downsample(series, plotWidth * 2);
+    plot = brailleRows(dots, bottom, top);
+    buckets = pairs(dots);
+  } else {
+    buckets = downsample(series, plotWidth);
+    plot = style === "sparkline"
+      ? [sparkline(buckets, low, high, series.score)]
+      : blockRows(buckets, bottom, top, series.score);
+  }
+
+  plot.forEach((row, i) => {
+    const label = style === "sparkline" ? "" : i === 0 ? formatValue(top) : i === plot.length - 1 ? formatValue(bottom) : "";
+    lines.push(`${chalk.dim(label.padStart(gutter))} ${row}`);
+  });
+  lines.push(`${" ".repeat(gutter)} ${chalk.dim("─".repeat(buckets.length))}`);
+
+  const days = buckets.map((bucket) => bucketDays(bucket, series.daily));
+  if (markers.restMode.size > 0 && days.some((covered) => covered.some((day) => markers.restMode.has(day)))) {
+    const row = days.map((covered) => (covered.some((day) => markers.restMode.has(day)) ? "▀" : " ")).join("");
+    lines.push(`${chalk.dim("rest".padStart(gutter))} ${chalk.magenta(row)}`);
+  }
+  const taggedDays = [...markers.tags.keys()].filter((day) => day >= series.start && day <= series.end).sort();
+  if (taggedDays.length > 0) {
+    const row = days.map((covered) => (covered.some((day) => markers.tags.has(day)) ? "•" : " ")).join("");
+    lines.push(`${chalk.dim("tags".padStart(gutter))} ${chalk.yellow(row)}`);
+  }
+
+  lines.push(`${" ".repeat(gutter)} ${axisLabels(series, buckets.length)}`);
+
+  if (taggedDays.length > 0) {
+    lines.push("");
+    for (const day of taggedDays.slice(0, MAX_LISTED_TAGS)) {
+      lines.push(`  ${chalk.yellow("•")} ${day}  ${markers.tags.get(day)!.join(", ")}`);
+    }
+    if (taggedDays.length > MAX_LISTED_TAGS) {
+      lines.push(chalk.dim(`  … and ${taggedDays.length - MAX_LISTED_TAGS} more tagged days`));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// Split the time axis into at most `columns` equal buckets and average the
+// points in each. Daily series get at most one bucket per day, sample series
+// at most one per sample; buckets without points are gaps.
+function downsample(series: ChartSeries, columns: number): Bucket[] {
+  const first = series.points[0].time;
+  const last = series.points.at(-1)!.time;
+  const span = series.daily ? last - first + DAY_MS : last - first + 1;
+  const count = Math.max(1, Math.min(columns, series.daily ? span / DAY_MS : series.points.length));
+  const step = span / count;
+
+  const sums = Array.from({ length: count }, () => ({ total: 0, n: 0 }));
+  for (const { time, value } of series.points) {
+    const sum = sums[Math.min(count - 1, Math.floor((time - first) / step))];
+    sum.total += value;
+    sum.n++;
+  }
+  const buckets = sums.map(({ total, n }, i) => ({
+    start: first + i * step,
+    end: first + (i + 1) * step,
+    value: n > 0 ? total / n : null,
+  }));
+
+  // Short daily series are stretched to a few columns per day
+  const repeat = series.daily ? Math.max(1, Math.min(MAX_DAY_COLUMNS, Math.floor(columns / count))) : 1;
+  return buckets.flatMap((bucket) => Array<Bucket>(repeat).fill(bucket));
+}
+
+function sparkline(buckets: Bucket[], low: number, high: number, score: boolean): string {
+  return buckets
+    .map(({ value }) => {
+      if (value === null) {
+        return " ";
+      }
+      const level = high === low ? SPARK_LEVELS.length - 1 : Math.round(((value - low) / (high - low)) * (SPARK_LEVELS.length - 1));
+      return colorValue(SPARK_LEVELS[level], value, score);
+    })
+    .join("");
+}
+
+// Vertical bars in eighths of a row, top row first
+function blockRows(buckets: Bucket[], bottom: number, top: number, score: boolean): string[] {
+  const heights = buckets.map(({ value }) =>
+    value === null ? 0 : Math.max(1, Math.round(((value - bottom) / (top - bottom)) * CHART_HEIGHT * 8))
+  );
+  return Array.from({ length: CHART_HEIGHT }, (_, row) => {
+    const base = (CHART_HEIGHT - 1 - row) * 8;
+    return heights
+      .map((height, i) => {
+        const filled = Math.min(8, height - base);
+        return filled <= 0 ? " " : colorValue(filled === 8 ? "█" : SPARK_LEVELS[filled - 1], buckets[i].value!, score);
+      })
+      .join("");
+  });
+}
+
+// A line through the buckets drawn in braille dots, two dot columns and four
+// dot rows per character. Neighbouring values are joined by a vertical run
+// of dots so steep changes stay connected.
+function brailleRows(dots: Bucket[], bottom: number, top: number): string[] {
+  const rows = CHART_HEIGHT * 4;
+  const cells = Array.from({ length: CHART_HEIGHT }, () => new Array(Math.ceil(dots.length / 2)).fill(0));
+  const level = (value: number) => Math.round(((value - bottom) / (top - bottom)) * (rows - 1));
+
+  let previous: number | null = null;
+  dots.forEach(({ value }, x) => {
+    if (value === null) {
+      previous = null;
+      return;
+    }
+    const y = level(value);
+    const [from, to] = previous === null ? [y, y] : [Math.min(previous, y), Math.max(previous, y)];
+    for (let dotY = from; dotY <= to; dotY++) {
+      const fromTop = rows - 1 - dotY;
+      cells[Math.floor(fromTop / 4)][Math.floor(x / 2)] |= brailleBit(x % 2, fromTop % 4);
+    }
+    previous = y;
+  });
+
+  return cells.map((row) => chalk.cyan(row.map((bits) => String.fromCharCode(0x2800 + bits)).join("")));
+}
+
+// Bit of the braille dot in column `x` (0-1) and row `y` (0-3) of a character
+function brailleBit(x: number, y: number): number {
+  return y === 3 ? (x === 0 ? 0x40 : 0x80) : 1 << (y + x * 3);
+}
+
+// Merge braille dot columns into character columns, for the marker rows
+function pairs(dots: Bucket[]): Bucket[] {
+  const merged: Bucket[] = [];
+  for (let i = 0; i < dots.length; i += 2) {
+    const last = dots[Math.min(i + 1, dots.length - 1)];
+    merged.push({ start: dots[i].start, end: last.end, value: dots[i].value ?? last.value });
+  }
+  return merged;
+}
+
+// Days a bucket touches
+function bucketDays(bucket: Bucket, daily: boolean): string[] {
+  const days: string[] = [];
+  const last = dayAt(Math.ceil(bucket.end) - 1, daily);
+  for (let day = dayAt(Math.floor(bucket.start), daily); day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// First and last day (or time, for samples within a day or two) under the x axis
+function axisLabels(series: ChartSeries, width: number): string {
+  const first = series.points[0].time;
+  const last = series.points.at(-1)!.time;
+  const label = (time: number) =>
+    series.daily || last - first > 2 * DAY_MS ? dayAt(time, series.daily) : `${dayAt(time, false)} ${timeOfDay(time)}`;
+
+  const left = label(first);
+  const right = label(last);
+  if (left === right || left.length + right.length + 1 > width) {
+    return chalk.dim(left);
+  }
+  return chalk.dim(left + " ".repeat(width - left.length - right.length) + right);
+}
+
+// Daily series are placed at UTC midnight of their day; samples are real
+// instants and fall on days in the configured timezone
+function dayAt(time: number, daily: boolean): string {
+  return daily ? new Date(time).toISOString().split("T")[0] : formatDay(new Date(time));
+}
+
+function timeOfDay(time: number): string {
+  return new Date(time).toLocaleTimeString("en-GB", { timeZone: getTimezone(), hour: "2-digit", minute: "2-digit" });
+}
+
+// Axis bounds around the data, widened so a flat series still has a range
+function niceRange(low: number, high: number): [number, number] {
+  if (low === high) {
+    return [low - 1, high + 1];
+  }
+  const margin = (high - low) * 0.05;
+  return [Math.floor(low - margin), Math.ceil(high + margin)];
+}
+
+function colorValue(text: string, value: number, score: boolean): string {
+  return score ? colorScore(text, value) : chalk.cyan(text);
+}
+
+function formatValue(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: Number.isInteger(value) ? 0 : 1 });
+}
+
+// Custom tags carry their own name; others are codes like tag_generic_alcohol
+function tagName(tag: Row): string {
+  if (typeof tag.custom_name === "string") {
+    return tag.custom_name;
+  }
+  const code = typeof tag.tag_type_code === "string" ? tag.tag_type_code : "tag";
+  return code.replace(/^tag_(generic_)?/, "").replace(/_/g, " ");
+}
@@ -0,0 +1,137 @@
+import { SCHEMAS, shapeColumns } from "../api/schema";
+
+export const OUTPUT_FORMATS = ["json", "ndjson", "csv", "tsv"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+type Row = Record<string, unknown>;
+
+/**
+ * Extract the records from an API result: the `data` array of a collection
+ * response, or the document itself for single-object endpoints.
+ */
+export function toRows(result: unknown): Row[] {
+  if (result && typeof result === "object" && "data" in result && Array.isArray(result.data)) {
+    return result.data;
+  }
+  return result ? [result as Row] : [];
+}
+
+/**
+ * Flatten nested objects into dotted keys, e.g. `spo2_percentage.average`.
+ * Arrays are kept as-is and serialized when the cell is rendered.
+ */
+export function flattenRow(row: Row, prefix = ""): Row {
+  const flat: Row = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      Object.assign(flat, flattenRow(value as Row, `${prefix}${key}.`));
+    } else {
+      flat[`${prefix}${key}`] = value;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Column order for an endpoint: the schema's fields in declaration order,
+ * followed by any fields the API returned that the schema doesn't know about.
+ */
+export function getColumns(endpoint: string, rows: Row[]): string[] {
+  const schema = SCHEMAS[endpoint];
+  const columns = schema ? shapeColumns(schema) : [];
+  const known = new Set(columns);
+
+  // A null nested object (e.g. `spo2_percentage: null`) flattens to a single
+  // key; it is already covered by the schema's dotted columns
+  const isNullParent = (key: string) => columns.some((column) => column.startsWith(`${key}.`));
+
+  const extra = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!known.has(key) && !isNullParent(key)) {
+        extra.add(key);
+      }
+    }
+  }
+
+  return [...columns, ...[...extra].sort()];
+}
+
+/**
+ * Render an API result in the requested output format
+ */
+export function formatResult(
+  result: unknown,
+  format: OutputFormat,
+  endpoint: string
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(result, null, 2);
+    case "ndjson":
+      return toRows(result)
+        .map((row) => JSON.stringify(row))
+        .join("\n");
+    case "csv":
+    case "tsv":
+      return formatTable(toRows(result), endpoint, format);
+  }
+}
+
+/**
+ * Render rows as CSV or TSV with a header line and flattened columns
+ */
+export function formatTable(
+  rows: Row[],
+  endpoint: string,
+  format: "csv" | "tsv"
+): string {
+  const flatRows = rows.map((row) => flattenRow(row));
+  const columns = getColumns(endpoint, flatRows);
+  return [formatTableHeader(columns, format), ...formatTableRows(rows, columns, format)].join("\n");
+}
+
+export function formatTableHeader(columns: string[], format: "csv" | "tsv"): string {
+  const escape = format === "csv" ? escapeCsv : escapeTsv;
+  return columns.map(escape).join(format === "csv" ? "," : "\t");
+}
+
+/**
+ * Render rows as CSV or TSV lines with a fixed set of columns, for output
+ * that is written in several batches under one header
+ */
+export function formatTableRows(
+  rows: Row[],
+  columns: string[],
+  format: "csv" | "tsv"
+): string[] {
+  const separator = format === "csv" ? "," : "\t";
+  const escape = format === "csv" ? escapeCsv : escapeTsv;
+
+  return rows.map((row) => {
+    const flat = flattenRow(row);
+    return columns.map((column) => escape(cellValue(flat[column]))).join(separator);
+  });
+}
+
+function cellValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function escapeCsv(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+// TSV has no quoting convention, so separators inside values become spaces
+function escapeTsv(value: string): string {
+  return value.replace(/[\t\r\n]+/g, " ");
+}
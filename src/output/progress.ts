@@ -0,0 +1,93 @@
+import chalk from "chalk";
+
+export type ProgressStatus = "pending" | "running" | "done" | "failed";
+
+interface ProgressRow {
+  label: string;
+  status: ProgressStatus;
+  done: number;
+  total: number;
+  records: number;
+}
+
+const BAR_WIDTH = 20;
+
+/**
+ * Per-task progress for long-running commands. On a terminal the rows are
+ * redrawn in place; otherwise a line is logged whenever a task finishes.
+ */
+export class ProgressDisplay {
+  private rows = new Map<string, ProgressRow>();
+  private interactive: boolean;
+  private drawnLines = 0;
+  private labelWidth: number;
+
+  constructor(tasks: Array<{ key: string; label: string; total: number }>) {
+    for (const { key, label, total } of tasks) {
+      this.rows.set(key, { label, status: "pending", done: 0, total, records: 0 });
+    }
+    this.interactive = Boolean(process.stdout.isTTY);
+    this.labelWidth = Math.max(0, ...tasks.map((task) => task.label.length));
+    this.render();
+  }
+
+  // Record one finished step of a task and the records it produced
+  advance(key: string, records: number): void {
+    const row = this.rows.get(key)!;
+    row.done++;
+    row.records += records;
+    if (row.status !== "failed") {
+      row.status = row.done >= row.total ? "done" : "running";
+    }
+    if (row.status === "done") {
+      this.log(row);
+    }
+    this.render();
+  }
+
+  fail(key: string): void {
+    const row = this.rows.get(key)!;
+    row.status = "failed";
+    this.render();
+  }
+
+  // Leave the final state on screen and log tasks that never completed
+  finish(): void {
+    for (const row of this.rows.values()) {
+      if (row.status !== "done") {
+        this.log(row);
+      }
+    }
+    this.render();
+  }
+
+  private log(row: ProgressRow): void {
+    if (!this.interactive) {
+      const suffix = row.status === "done" ? "" : ` (${row.status}, ${row.done}/${row.total} chunks)`;
+      console.log(chalk.dim(`${row.label}: ${row.records} records${suffix}`));
+    }
+  }
+
+  private render(): void {
+    if (!this.interactive) {
+      return;
+    }
+
+    const lines = [...this.rows.values()].map((row) => this.formatRow(row));
+    // Move back over the previous frame and redraw it line by line
+    const rewind = this.drawnLines > 0 ? `\x1b[${this.drawnLines}A` : "";
+    process.stdout.write(rewind + lines.map((line) => `\x1b[2K${line}\n`).join(""));
+    this.drawnLines = lines.length;
+  }
+
+  private formatRow(row: ProgressRow): string {
+    const filled = row.total > 0 ? Math.round((row.done / row.total) * BAR_WIDTH) : BAR_WIDTH;
+    const bar = "█".repeat(filled) + "░".repeat(BAR_WIDTH - filled);
+    const color = { pending: chalk.dim, running: chalk.cyan, done: chalk.green, failed: chalk.red }[row.status];
+    return (
+      `  ${row.label.padEnd(this.labelWidth)}  ${color(bar)}  ` +
+      chalk.dim(`${row.done}/${row.total}  ${row.records} records`) +
+      (row.status === "failed" ? chalk.red("  failed") : "")
+    );
+  }
+}
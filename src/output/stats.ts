@@ -0,0 +1,146 @@
+import chalk from "chalk";
+import { colorScore } from "./table";
+import { formatTableHeader, formatTableRows } from "./format";
+import { isScoreField, type MetricStats } from "../stats/trends";
+
+// Days listed in the terminal view; CSV and JSON output has all of them
+const RECENT_DAYS = 14;
+
+/**
+ * Render metric statistics for the terminal: an overview, the weekly means
+ * with week-over-week changes, and the most recent days with rolling values.
+ */
+export function renderStats(stats: MetricStats, typeName: string): string {
+  const title = chalk.cyan.bold(`📈 ${typeName} · ${stats.metric}`);
+  if (stats.count === 0) {
+    return `${title}\n\n${chalk.dim("No data for this range.")}`;
+  }
+
+  const score = isScoreField(stats.metric);
+  const colorValue = (text: string, value: number | null) => (score ? colorScore(text, value) : text);
+  const lines = [
+    title,
+    chalk.dim(`${stats.start} → ${stats.end} · ${stats.count} days · ${stats.window_days}-day rolling window`),
+    "",
+  ];
+
+  lines.push(
+    `  ${chalk.bold("Mean")}         ${colorValue(formatNumber(stats.mean), stats.mean)} ` +
+      chalk.dim(`± ${formatNumber(stats.std_dev)}`) +
+      `   ${chalk.bold("Min")} ${formatNumber(stats.min)}   ${chalk.bold("Max")} ${formatNumber(stats.max)}`,
+    `  ${chalk.bold("Percentiles")}  ` +
+      Object.entries(stats.percentiles)
+        .map(([name, value]) => `${chalk.dim(name)} ${formatNumber(value)}`)
+        .join("   "),
+    `  ${chalk.bold("Trend")}        ${formatTrend(stats, score)}`
+  );
+
+  if (stats.streak) {
+    const { condition, longest, current } = stats.streak;
+    const describe = (streak: typeof longest) =>
+      streak ? `${pluralDays(streak.days)} ${chalk.dim(`(${streak.start} → ${streak.end})`)}` : chalk.dim("none");
+    lines.push(
+      `  ${chalk.bold(`Streak ${condition.replace(">=", "≥").replace("<=", "≤")}`)}`,
+      `    longest  ${describe(longest)}`,
+      `    current  ${describe(current)}`
+    );
+  }
+
+  lines.push("", chalk.bold("Weekly"));
+  lines.push(
+    ...renderGrid(
+      ["Week", "Days", "Mean", "Δ prev week"],
+      stats.weeks.map((week) => [
+        week.week,
+        String(week.days),
+        colorValue(formatNumber(week.mean), week.mean),
+        formatDelta(week.delta, score),
+      ])
+    )
+  );
+
+  const days = stats.days.slice(-RECENT_DAYS);
+  const shown = days.length < stats.days.length ? ` (last ${days.length} of ${stats.days.length})` : "";
+  lines.push("", chalk.bold(`Daily${shown}`));
+  lines.push(
+    ...renderGrid(
+      ["Day", "Value", `${stats.window_days}d mean`, `${stats.window_days}d std dev`],
+      days.map((day) => [
+        day.day,
+        colorValue(formatNumber(day.value), day.value),
+        formatNumber(day.rolling_mean),
+        formatNumber(day.rolling_std_dev),
+      ])
+    )
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * The daily series with its rolling values as CSV or TSV
+ */
+export function formatStatsTable(stats: MetricStats, format: "csv" | "tsv"): string {
+  const columns = ["day", "value", "rolling_mean", "rolling_std_dev"];
+  const rows = stats.days.map((day) => ({ ...day }));
+  return [formatTableHeader(columns, format), ...formatTableRows(rows, columns, format)].join("\n");
+}
+
+function formatTrend(stats: MetricStats, score: boolean): string {
+  const { slope_per_day: perDay, slope_per_week: perWeek } = stats.trend;
+  if (perDay === null || perWeek === null) {
+    return chalk.dim("not enough data");
+  }
+  return `${formatDelta(perWeek, score)} per week ${chalk.dim(`(${signed(perDay, 3)} per day)`)}`;
+}
+
+// Up and down are good and bad news for scores; other fields stay neutral
+function formatDelta(delta: number | null, score: boolean): string {
+  if (delta === null) {
+    return chalk.dim("-");
+  }
+  if (delta === 0) {
+    return chalk.dim("=");
+  }
+  const text = `${delta > 0 ? "▲" : "▼"} ${Math.abs(delta).toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+  if (!score) {
+    return text;
+  }
+  return delta > 0 ? chalk.green(text) : chalk.red(text);
+}
+
+function renderGrid(header: string[], rows: string[][]): string[] {
+  const widths = header.map((text, i) =>
+    Math.max(visibleLength(text), ...rows.map((cells) => visibleLength(cells[i])))
+  );
+  // The first column is left-aligned, numbers are right-aligned
+  const pad = (text: string, i: number) => {
+    const fill = " ".repeat(widths[i] - visibleLength(text));
+    return i === 0 ? text + fill : fill + text;
+  };
+  return [
+    "  " + chalk.bold(header.map(pad).join("   ")),
+    ...rows.map((cells) => "  " + cells.map(pad).join("   ")),
+  ];
+}
+
+function formatNumber(value: number | null): string {
+  if (value === null) {
+    return chalk.dim("-");
+  }
+  return value.toLocaleString("en-US", { maximumFractionDigits: Number.isInteger(value) ? 0 : 1 });
+}
+
+function signed(value: number, digits: number): string {
+  const text = value.toLocaleString("en-US", { maximumFractionDigits: digits });
+  return value > 0 ? `+${text}` : text;
+}
+
+function pluralDays(days: number): string {
+  return `${days} ${days === 1 ? "day" : "days"}`;
+}
+
+// Width of text as shown, without colour codes
+function visibleLength(text: string): number {
+  return text.replace(/\x1b\[[0-9;]*m/g, "").length;
+}
@@ -0,0 +1,100 @@
+import chalk from "chalk";
+import { colorScore } from "./table";
+import { SUMMARY_METRICS, type DailySummary, type Metric } from "../stats/summary";
+
+/**
+ * Render a daily summary as a compact terminal dashboard: each metric against
+ * its 7- and 30-day averages, then the biggest movers.
+ */
+export function renderSummary(summary: DailySummary): string {
+  const weekday = new Date(`${summary.day}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "long",
+    timeZone: "UTC",
+  });
+  const lines = [chalk.cyan.bold(`📋 ${weekday}, ${summary.day}`), ""];
+
+  const rows = summary.metrics.map((row) => {
+    const metric = SUMMARY_METRICS.find((m) => m.key === row.key)!;
+    return {
+      metric,
+      cells: [
+        row.label,
+        formatValue(row.value, metric),
+        formatAverage(row.avg_7d, row.value, metric),
+        formatAverage(row.avg_30d, row.value, metric),
+      ],
+    };
+  });
+
+  const header = ["", "Today", "7-day avg", "30-day avg"];
+  const widths = header.map((text, i) =>
+    Math.max(visibleLength(text), ...rows.map(({ cells }) => visibleLength(cells[i])))
+  );
+  const pad = (text: string, i: number) =>
+    i === 0 ? text + " ".repeat(widths[i] - visibleLength(text)) : " ".repeat(widths[i] - visibleLength(text)) + text;
+
+  lines.push(chalk.bold(header.map(pad).join("   ")));
+  for (const { metric, cells } of rows) {
+    const value = summary.metrics.find((row) => row.key === metric.key)!.value;
+    const today = metric.score ? colorScore(cells[1], value) : cells[1];
+    lines.push([cells[0], today, cells[2], cells[3]].map(pad).join("   "));
+  }
+
+  if (summary.resilience_level) {
+    lines.push("", `${chalk.bold("Resilience")}  ${summary.resilience_level}`);
+  }
+
+  lines.push("", chalk.bold("Biggest movers"));
+  if (summary.movers.length === 0) {
+    lines.push(chalk.dim("  Nothing stands out against your 30-day averages."));
+  }
+  for (const mover of summary.movers) {
+    const arrow = mover.direction === "up" ? "▲" : "▼";
+    const change = mover.change_pct === null ? "" : ` ${mover.change_pct > 0 ? "+" : ""}${mover.change_pct}%`;
+    lines.push(`  ${colorChange(`${arrow} ${mover.label}${change}`, mover.good)} ${chalk.dim("vs 30-day avg")}`);
+  }
+
+  return lines.join("\n");
+}
+
+function formatValue(value: number | null, metric: Metric): string {
+  if (value === null) {
+    return chalk.dim("-");
+  }
+  const text = value.toLocaleString("en-US", {
+    minimumFractionDigits: metric.digits,
+    maximumFractionDigits: metric.digits,
+  });
+  return metric.unit ? `${text} ${metric.unit}` : text;
+}
+
+// An average followed by how far today is from it, coloured by whether that's good
+function formatAverage(average: number | null, value: number | null, metric: Metric): string {
+  if (average === null) {
+    return chalk.dim("-");
+  }
+  const text = formatValue(average, metric);
+  if (value === null) {
+    return text;
+  }
+
+  const delta = value - average;
+  const shown = Math.abs(delta).toFixed(metric.digits);
+  if (Number(shown) === 0) {
+    return `${text} ${chalk.dim("=")}`;
+  }
+  const good = metric.higherIsBetter === null ? null : delta > 0 === metric.higherIsBetter;
+  return `${text} ${colorChange(`${delta > 0 ? "▲" : "▼"}${Number(shown).toLocaleString("en-US")}`, good)}`;
+}
+
+function colorChange(text: string, good: boolean | null): string {
+  if (good === null) {
+    return chalk.dim(text);
+  }
+  return good ? chalk.green(text) : chalk.red(text);
+}
+
+// Width of text as shown, without colour codes
+function visibleLength(text: string): number {
+  return text.replace(/\x1b\[[0-9;]*m/g, "").length;
+}
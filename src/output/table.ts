@@ -0,0 +1,150 @@
+import chalk from "chalk";
+import { toRows } from "./format";
+
+type Row = Record<string, unknown>;
+
+interface Column {
+  header: string;
+  value: (row: Row) => number | string | null | undefined;
+  // Score columns are coloured by Oura's score bands
+  score?: boolean;
+  // Numeric columns get a min/avg/max footer on multi-day ranges
+  numeric?: boolean;
+}
+
+const DAY_COLUMN: Column = { header: "Day", value: (row) => toText(row.day) };
+const SCORE_COLUMN: Column = { header: "Score", value: (row) => toNumber(row.score), score: true, numeric: true };
+
+// Table layouts for the daily summary endpoints, one row per day
+const TABLES: Record<string, Column[]> = {
+  daily_sleep: [DAY_COLUMN, SCORE_COLUMN],
+  daily_activity: [
+    DAY_COLUMN,
+    SCORE_COLUMN,
+    { header: "Steps", value: (row) => toNumber(row.steps), numeric: true },
+  ],
+  daily_readiness: [DAY_COLUMN, SCORE_COLUMN],
+  daily_stress: [
+    DAY_COLUMN,
+    { header: "Stress (min)", value: (row) => toMinutes(row.stress_high), numeric: true },
+    { header: "Recovery (min)", value: (row) => toMinutes(row.recovery_high), numeric: true },
+    { header: "Summary", value: (row) => toText(row.day_summary) },
+  ],
+};
+
+export function hasTableRenderer(endpoint: string): boolean {
+  return endpoint in TABLES;
+}
+
+/**
+ * Render a daily endpoint as a coloured terminal table, with a min/avg/max
+ * footer when more than one day is shown.
+ */
+export function renderTable(result: unknown, endpoint: string): string {
+  const columns = TABLES[endpoint];
+  if (!columns) {
+    throw new Error(`No table layout for '${endpoint}'`);
+  }
+
+  const rows = toRows(result);
+  if (rows.length === 0) {
+    return chalk.dim("No data for this range.");
+  }
+
+  const body = rows.map((row) => columns.map((column) => column.value(row)));
+  const footer = rows.length > 1 ? summarize(columns, body) : [];
+
+  const cells = [columns.map((c) => c.header), ...body, ...footer].map((line) =>
+    line.map((value) => formatCell(value))
+  );
+  const widths = columns.map((_, i) => Math.max(...cells.map((line) => line[i].length)));
+
+  const renderLine = (line: string[], style: (text: string, index: number) => string) =>
+    line
+      .map((text, i) => style(columns[i].numeric ? text.padStart(widths[i]) : text.padEnd(widths[i]), i))
+      .join("  ");
+
+  const lines = [renderLine(cells[0], (text) => chalk.bold(text))];
+  lines.push(chalk.dim(widths.map((w) => "─".repeat(w)).join("  ")));
+
+  body.forEach((values, r) => {
+    lines.push(
+      renderLine(cells[r + 1], (text, i) =>
+        columns[i].score ? colorScore(text, values[i]) : text
+      )
+    );
+  });
+
+  if (footer.length > 0) {
+    lines.push(chalk.dim(widths.map((w) => "─".repeat(w)).join("  ")));
+    for (const line of cells.slice(body.length + 1)) {
+      lines.push(renderLine(line, (text) => chalk.dim(text)));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Colour a score by Oura's bands: 85+ optimal, 70-84 good, below 70 needs attention
+ */
+export function colorScore(text: string, score: unknown): string {
+  if (typeof score !== "number") {
+    return text;
+  }
+  if (score >= 85) {
+    return chalk.green(text);
+  }
+  if (score >= 70) {
+    return chalk.yellow(text);
+  }
+  return chalk.red(text);
+}
+
+function summarize(columns: Column[], body: Array<Array<unknown>>): Array<Array<unknown>> {
+  const labels = ["min", "avg", "max"];
+
+  return labels.map((label, l) =>
+    columns.map((column, i) => {
+      if (i === 0) {
+        return label;
+      }
+      if (!column.numeric) {
+        return "";
+      }
+      const values = body.map((line) => line[i]).filter((v): v is number => typeof v === "number");
+      if (values.length === 0) {
+        return "";
+      }
+      const stats = [
+        Math.min(...values),
+        values.reduce((sum, v) => sum + v, 0) / values.length,
+        Math.max(...values),
+      ];
+      return Math.round(stats[l]);
+    })
+  );
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "-";
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? value.toLocaleString("en-US") : value.toFixed(1);
+  }
+  return String(value);
+}
+
+function toMinutes(seconds: unknown): number | null {
+  return typeof seconds === "number" ? Math.round(seconds / 60) : null;
+}
+
+// Fields the API documents but may omit or null; anything else shows as "-"
+function toNumber(value: unknown): number | null {
+  return typeof value === "number" ? value : null;
+}
+
+function toText(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
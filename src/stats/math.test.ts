@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { linearSlope, mean, percentile, round, stdDev } from "./math";
+
+describe("mean and stdDev", () => {
+  test("describe a sample", () => {
+    expect(mean([2, 4, 4, 4, 5, 5, 7, 9])).toBe(5);
+    expect(stdDev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3);
+  });
+
+  test("give null when there is too little data", () => {
+    expect(mean([])).toBeNull();
+    expect(stdDev([])).toBeNull();
+    expect(stdDev([3])).toBeNull();
+  });
+});
+
+describe("round", () => {
+  test("rounds to the given digits and keeps nulls", () => {
+    expect(round(1.25)).toBe(1.3);
+    expect(round(1.23456, 3)).toBe(1.235);
+    expect(round(null)).toBeNull();
+  });
+});
+
+describe("percentile", () => {
+  test("interpolates between the closest ranks", () => {
+    const sorted = [10, 20, 30, 40, 50];
+    expect(percentile(sorted, 0)).toBe(10);
+    expect(percentile(sorted, 50)).toBe(30);
+    expect(percentile(sorted, 90)).toBe(46);
+    expect(percentile(sorted, 100)).toBe(50);
+    expect(percentile([7], 25)).toBe(7);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("linearSlope", () => {
+  test("fits a least-squares line", () => {
+    expect(linearSlope([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }])).toBe(2);
+    expect(linearSlope([{ x: 0, y: 1 }, { x: 1, y: 0 }, { x: 2, y: 2 }, { x: 3, y: 1 }])).toBeCloseTo(0.2, 10);
+  });
+
+  test("gives null without two distinct x values", () => {
+    expect(linearSlope([{ x: 0, y: 1 }])).toBeNull();
+    expect(linearSlope([{ x: 1, y: 1 }, { x: 1, y: 2 }])).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+// Descriptive statistics over plain numbers. Inputs too small to say anything
+// give null.
+
+export function mean(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Sample standard deviation
+ */
+export function stdDev(values: number[]): number | null {
+  const average = mean(values);
+  if (average === null || values.length < 2) {
+    return null;
+  }
+  const squares = values.reduce((sum, value) => sum + (value - average) ** 2, 0);
+  return Math.sqrt(squares / (values.length - 1));
+}
+
+// Round for display and JSON output, keeping nulls
+export function round(value: number | null, digits = 1): number | null {
+  if (value === null) {
+    return null;
+  }
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Percentile (0-100) of values sorted in ascending order, interpolating
+ * linearly between the closest ranks
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Slope of the least-squares line through (x, y) points
+ */
+export function linearSlope(points: Array<{ x: number; y: number }>): number | null {
+  if (points.length < 2) {
+    return null;
+  }
+  const meanX = mean(points.map((point) => point.x))!;
+  const meanY = mean(points.map((point) => point.y))!;
+  let covariance = 0;
+  let variance = 0;
+  for (const { x, y } of points) {
+    covariance += (x - meanX) * (y - meanY);
+    variance += (x - meanX) ** 2;
+  }
+  return variance === 0 ? null : covariance / variance;
+}
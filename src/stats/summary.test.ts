@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { DATA_TYPES } from "../api/registry";
+import { addDays } from "../utils/dates";
+import { buildSummary } from "./summary";
+
+const DAY = "2024-03-15";
+
+function metric(summary: ReturnType<typeof buildSummary>, key: string) {
+  return summary.metrics.find((item) => item.key === key);
+}
+
+describe("buildSummary", () => {
+  test("compares the day with its baseline and picks out movers", () => {
+    const sleep = Array.from({ length: 10 }, (_, i) => ({
+      day: addDays(DAY, -(i + 1)),
+      score: i % 2 === 0 ? 70 : 74,
+    }));
+    const summary = buildSummary(DAY, new Map([[DATA_TYPES.sleep.key, [{ day: DAY, score: 90 }, ...sleep]]]));
+
+    expect(metric(summary, "sleep_score")).toMatchObject({ value: 90, avg_7d: 71.7, avg_30d: 72 });
+    expect(summary.movers[0]).toMatchObject({ key: "sleep_score", direction: "up", good: true });
+  });
+
+  test("survives documents missing fields the types promise", () => {
+    const resilience = [
+      { day: DAY, level: "solid" },
+      { day: addDays(DAY, -1), contributors: null },
+    ];
+    const summary = buildSummary(DAY, new Map([[DATA_TYPES.resilience.key, resilience]]));
+
+    expect(summary.resilience_level).toBe("solid");
+    expect(metric(summary, "sleep_recovery")?.value).toBeNull();
+    expect(metric(summary, "daytime_recovery")?.value).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+import { DATA_TYPES, type DataType } from "../api/registry";
+import type {
+  DailyActivity,
+  DailyReadiness,
+  DailyResilience,
+  DailySleep,
+  DailyStress,
+  SpO2,
+} from "../api/types";
+import { addDays } from "../utils/dates";
+import { mean, round, stdDev } from "./math";
+
+// A number tracked per day, read from the daily document of a data type
+export interface Metric<T = unknown> {
+  key: string;
+  label: string;
+  type: DataType<T>;
+  unit: string;
+  // Decimal places shown
+  digits: number;
+  // Oura scores (0-100) are coloured by score bands
+  score: boolean;
+  // Whether a rise is good news; null for measures that are neither
+  higherIsBetter: boolean | null;
+  value(item: T): number | null;
+}
+
+function defineMetric<T>(metric: Metric<T>): Metric<T> {
+  return metric;
+}
+
+function toMinutes(seconds: number | null): number | null {
+  return seconds === null ? null : seconds / 60;
+}
+
+export const SUMMARY_METRICS: Metric[] = [
+  defineMetric<DailySleep>({
+    key: "sleep_score",
+    label: "Sleep",
+    type: DATA_TYPES.sleep,
+    unit: "",
+    digits: 0,
+    score: true,
+    higherIsBetter: true,
+    value: (item) => item.score,
+  }),
+  defineMetric<DailyReadiness>({
+    key: "readiness_score",
+    label: "Readiness",
+    type: DATA_TYPES.readiness,
+    unit: "",
+    digits: 0,
+    score: true,
+    higherIsBetter: true,
+    value: (item) => item.score,
+  }),
+  defineMetric<DailyReadiness>({
+    key: "temperature_deviation",
+    label: "Temperature",
+    type: DATA_TYPES.readiness,
+    unit: "°C",
+    digits: 1,
+    score: false,
+    higherIsBetter: null,
+    value: (item) => item.temperature_deviation,
+  }),
+  defineMetric<DailyActivity>({
+    key: "activity_score",
+    label: "Activity",
+    type: DATA_TYPES.activity,
+    unit: "",
+    digits: 0,
+    score: true,
+    higherIsBetter: true,
+    value: (item) => item.score,
+  }),
+  defineMetric<DailyActivity>({
+    key: "steps",
+    label: "Steps",
+    type: DATA_TYPES.activity,
+    unit: "",
+    digits: 0,
+    score: false,
+    higherIsBetter: true,
+    value: (item) => item.steps,
+  }),
+  defineMetric<DailyActivity>({
+    key: "active_calories",
+    label: "Active calories",
+    type: DATA_TYPES.activity,
+    unit: "kcal",
+    digits: 0,
+    score: false,
+    higherIsBetter: true,
+    value: (item) => item.active_calories,
+  }),
+  defineMetric<DailyStress>({
+    key: "stress_high",
+    label: "Stressed",
+    type: DATA_TYPES.stress,
+    unit: "min",
+    digits: 0,
+    score: false,
+    higherIsBetter: false,
+    value: (item) => toMinutes(item.stress_high),
+  }),
+  defineMetric<DailyStress>({
+    key: "recovery_high",
+    label: "Restored",
+    type: DATA_TYPES.stress,
+    unit: "min",
+    digits: 0,
+    score: false,
+    higherIsBetter: true,
+    value: (item) => toMinutes(item.recovery_high),
+  }),
+  defineMetric<DailyResilience>({
+    key: "sleep_recovery",
+    label: "Sleep recovery",
+    type: DATA_TYPES.resilience,
+    unit: "",
+    digits: 0,
+    score: false,
+    higherIsBetter: true,
+    value: (item) => item.contributors?.sleep_recovery ?? null,
+  }),
+  defineMetric<DailyResilience>({
+    key: "daytime_recovery",
+    label: "Daytime recovery",
+    type: DATA_TYPES.resilience,
+    unit: "",
+    digits: 0,
+    score: false,
+    higherIsBetter: true,
+    value: (item) => item.contributors?.daytime_recovery ?? null,
+  }),
+  defineMetric<SpO2>({
+    key: "spo2",
+    label: "Blood oxygen",
+    type: DATA_TYPES.spo2,
+    unit: "%",
+    digits: 1,
+    score: false,
+    higherIsBetter: true,
+    value: (item) => item.spo2_percentage?.average ?? null,
+  }),
+  defineMetric<SpO2>({
+    key: "breathing_disturbance_index",
+    label: "Breathing disturbance",
+    type: DATA_TYPES.spo2,
+    unit: "",
+    digits: 1,
+    score: false,
+    higherIsBetter: false,
+    value: (item) => item.breathing_disturbance_index,
+  }),
+];
+
+// Data types the summary reads, in the order metrics list them
+export const SUMMARY_DATA_TYPES: DataType[] = [...new Set(SUMMARY_METRICS.map((metric) => metric.type))];
+
+// Days before the summarised day that the averages cover
+export const BASELINE_DAYS = { short: 7, long: 30 } as const;
+
+// A metric counts as a mover once it's this many standard deviations from
+// its 30-day average
+const MOVER_THRESHOLD = 1;
+const MAX_MOVERS = 3;
+
+export interface MetricSummary {
+  key: string;
+  label: string;
+  unit: string;
+  value: number | null;
+  avg_7d: number | null;
+  avg_30d: number | null;
+  // Standard deviations from the 30-day average
+  z_score: number | null;
+}
+
+export interface Mover {
+  key: string;
+  label: string;
+  direction: "up" | "down";
+  // Change against the 30-day average, in percent
+  change_pct: number | null;
+  // Whether the change is good news; null for neutral measures
+  good: boolean | null;
+}
+
+export interface DailySummary {
+  day: string;
+  metrics: MetricSummary[];
+  resilience_level: string | null;
+  movers: Mover[];
+}
+
+/**
+ * Compare a day with the days before it. `documents` holds the documents of
+ * each summary data type over the baseline range, keyed by data type key.
+ */
+export function buildSummary(day: string, documents: Map<string, unknown[]>): DailySummary {
+  const metrics = SUMMARY_METRICS.map((metric) => {
+    const values = valuesByDay(metric, documents.get(metric.type.key) ?? []);
+    const before = (days: number) =>
+      Array.from({ length: days }, (_, i) => values.get(addDays(day, -(i + 1))))
+        .filter((value): value is number => value !== undefined);
+
+    const value = values.get(day) ?? null;
+    const long = before(BASELINE_DAYS.long);
+    const average = mean(long);
+    const deviation = stdDev(long);
+
+    return {
+      metric,
+      summary: {
+        key: metric.key,
+        label: metric.label,
+        unit: metric.unit,
+        value: round(value, metric.digits),
+        avg_7d: round(mean(before(BASELINE_DAYS.short)), 1),
+        avg_30d: round(average, 1),
+        z_score: value !== null && average !== null && deviation ? round((value - average) / deviation, 2) : null,
+      },
+      average,
+      value,
+    };
+  });
+
+  const movers = metrics
+    .filter(({ summary }) => summary.z_score !== null && Math.abs(summary.z_score) >= MOVER_THRESHOLD)
+    .sort((a, b) => Math.abs(b.summary.z_score!) - Math.abs(a.summary.z_score!))
+    .slice(0, MAX_MOVERS)
+    .map(({ metric, value, average }): Mover => {
+      const direction = value! > average! ? "up" : "down";
+      return {
+        key: metric.key,
+        label: metric.label,
+        direction,
+        change_pct: average ? round(((value! - average) / Math.abs(average)) * 100, 0) : null,
+        good: metric.higherIsBetter === null ? null : (direction === "up") === metric.higherIsBetter,
+      };
+    });
+
+  return {
+    day,
+    metrics: metrics.map(({ summary }) => summary),
+    resilience_level: resilienceLevel(documents.get(DATA_TYPES.resilience.key) ?? [], day),
+    movers,
+  };
+}
+
+// Documents are unvalidated API data, so the level is only taken if it's there
+function resilienceLevel(documents: unknown[], day: string): string | null {
+  for (const document of documents) {
+    if (typeof document === "object" && document !== null && "day" in document && document.day === day) {
+      return "level" in document && typeof document.level === "string" ? document.level : null;
+    }
+  }
+  return null;
+}
+
+// A metric's value on each day that has one
+function valuesByDay(metric: Metric, documents: unknown[]): Map<string, number> {
+  const values = new Map<string, number>();
+  for (const document of documents) {
+    const day = metric.type.dateKey(document);
+    const value = metric.value(document);
+    if (day && value !== null && Number.isFinite(value)) {
+      values.set(day, value);
+    }
+  }
+  return values;
+}
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test";
+import { DATA_TYPES } from "../api/registry";
+import {
+  computeStats,
+  dailyValues,
+  formatStreakCondition,
+  getNumericFields,
+  isScoreField,
+  parseStreakCondition,
+  type DayValue,
+} from "./trends";
+
+function series(start: string, values: Array<number | null>): DayValue[] {
+  return values.flatMap((value, i) => {
+    const day = new Date(Date.parse(start) + i * 86400000).toISOString().slice(0, 10);
+    return value === null ? [] : [{ day, value }];
+  });
+}
+
+describe("getNumericFields", () => {
+  test("lists dotted numeric fields in schema order", () => {
+    const fields = getNumericFields(DATA_TYPES.readiness);
+    expect(fields[0]).toBe("contributors.activity_balance");
+    expect(fields).toContain("score");
+    expect(fields).toContain("temperature_deviation");
+    expect(fields).not.toContain("day");
+  });
+
+  test("tells scores from other fields", () => {
+    expect(isScoreField("score")).toBe(true);
+    expect(isScoreField("contributors.hrv_balance")).toBe(true);
+    expect(isScoreField("steps")).toBe(false);
+  });
+});
+
+describe("parseStreakCondition", () => {
+  test("parses an operator and a number", () => {
+    expect(parseStreakCondition(">=85")).toEqual({ operator: ">=", threshold: 85 });
+    expect(parseStreakCondition(" < -0.5 ")).toEqual({ operator: "<", threshold: -0.5 });
+    expect(formatStreakCondition({ operator: ">", threshold: 10 })).toBe("> 10");
+  });
+
+  test("rejects anything else", () => {
+    expect(() => parseStreakCondition("85")).toThrow("Invalid streak condition '85'");
+    expect(() => parseStreakCondition("=>85")).toThrow("Invalid streak condition");
+  });
+});
+
+describe("dailyValues", () => {
+  test("averages several documents of a day and reads nested fields", () => {
+    const documents = [
+      { day: "2024-01-02", score: 80, contributors: { timing: 60 } },
+      { day: "2024-01-01", score: 70, contributors: { timing: null } },
+      { day: "2024-01-02", score: 90, contributors: { timing: 70 } },
+      { day: "2024-01-03", score: null },
+    ];
+    expect(dailyValues(DATA_TYPES.sleep, documents, "score")).toEqual([
+      { day: "2024-01-01", value: 70 },
+      { day: "2024-01-02", value: 85 },
+    ]);
+    expect(dailyValues(DATA_TYPES.sleep, documents, "contributors.timing")).toEqual([{ day: "2024-01-02", value: 65 }]);
+  });
+});
+
+describe("computeStats", () => {
+  const options = { type: DATA_TYPES.sleep, metric: "score", window: 3 };
+
+  test("summarizes the series with a trend", () => {
+    const stats = computeStats(series("2024-01-01", [70, 72, 74, 76, 78]), options);
+    expect(stats).toMatchObject({
+      type: "sleep",
+      start: "2024-01-01",
+      end: "2024-01-05",
+      count: 5,
+      mean: 74,
+      min: 70,
+      max: 78,
+      percentiles: { p10: 70.8, p50: 74, p90: 77.2 },
+      trend: { slope_per_day: 2, slope_per_week: 14 },
+      streak: null,
+    });
+  });
+
+  test("rolls the window over calendar days, skipping days without data", () => {
+    const stats = computeStats(series("2024-01-01", [60, 70, null, 80, 90]), options);
+    expect(stats.days.map((day) => day.rolling_mean)).toEqual([60, 65, 75, 85]);
+    expect(stats.days[0].rolling_std_dev).toBeNull();
+  });
+
+  test("compares each ISO week with the week before", () => {
+    // Monday 2024-01-01 to Sunday 2024-01-14
+    const stats = computeStats(series("2024-01-01", [...Array(7).fill(70), ...Array(7).fill(80)]), options);
+    expect(stats.weeks).toEqual([
+      { week: "2024-W01", days: 7, mean: 70, delta: null },
+      { week: "2024-W02", days: 7, mean: 80, delta: 10 },
+    ]);
+  });
+
+  test("finds the longest and current streaks, broken by missing days", () => {
+    const streak = parseStreakCondition(">=85");
+    const stats = computeStats(series("2024-01-01", [86, 90, 88, 70, 85, null, 95, 99]), { ...options, streak });
+    expect(stats.streak).toEqual({
+      condition: ">= 85",
+      longest: { days: 3, start: "2024-01-01", end: "2024-01-03" },
+      current: { days: 2, start: "2024-01-07", end: "2024-01-08" },
+    });
+
+    const ended = computeStats(series("2024-01-01", [90, 60]), { ...options, streak });
+    expect(ended.streak?.current).toBeNull();
+  });
+
+  test("handles an empty series", () => {
+    const stats = computeStats([], options);
+    expect(stats).toMatchObject({ count: 0, start: null, mean: null, min: null, weeks: [], days: [] });
+  });
+});
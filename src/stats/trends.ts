@@ -0,0 +1,239 @@
+import { COLLECTION_DATA_TYPES, type DataType } from "../api/registry";
+import { numericColumns, SCHEMAS } from "../api/schema";
+import { addDays, formatIsoWeek } from "../utils/dates";
+import { linearSlope, mean, percentile, round, stdDev } from "./math";
+
+// Data types `oura stats` works on: day-ranged series with numeric fields
+export const STATS_DATA_TYPES: DataType[] = COLLECTION_DATA_TYPES.filter(
+  (type) => type.timeSeries && type.dateParams === "date" && getNumericFields(type).length > 0
+);
+
+// Scores default to a streak of optimal days
+export const DEFAULT_SCORE_STREAK = ">=85";
+
+const PERCENTILES = [10, 25, 50, 75, 90] as const;
+
+const STREAK_OPERATORS = {
+  ">=": (value: number, threshold: number) => value >= threshold,
+  ">": (value: number, threshold: number) => value > threshold,
+  "<=": (value: number, threshold: number) => value <= threshold,
+  "<": (value: number, threshold: number) => value < threshold,
+};
+
+export interface StreakCondition {
+  operator: keyof typeof STREAK_OPERATORS;
+  threshold: number;
+}
+
+// One value per day; days with several documents (e.g. naps) are averaged
+export interface DayValue {
+  day: string;
+  value: number;
+}
+
+export interface DayStats extends DayValue {
+  // Over the window of days ending on this day
+  rolling_mean: number | null;
+  rolling_std_dev: number | null;
+}
+
+export interface WeekStats {
+  week: string;
+  days: number;
+  mean: number | null;
+  // Change against the calendar week before, if it has data
+  delta: number | null;
+}
+
+export interface Streak {
+  days: number;
+  start: string;
+  end: string;
+}
+
+export interface MetricStats {
+  type: string;
+  metric: string;
+  window_days: number;
+  start: string | null;
+  end: string | null;
+  count: number;
+  mean: number | null;
+  std_dev: number | null;
+  min: number | null;
+  max: number | null;
+  percentiles: Record<string, number | null>;
+  trend: {
+    slope_per_day: number | null;
+    slope_per_week: number | null;
+  };
+  streak: {
+    condition: string;
+    longest: Streak | null;
+    // The streak running on the last day with data
+    current: Streak | null;
+  } | null;
+  weeks: WeekStats[];
+  days: DayStats[];
+}
+
+/**
+ * Dotted names of the numeric fields of a data type, e.g. `contributors.hrv_balance`
+ */
+export function getNumericFields(type: DataType): string[] {
+  const shape = SCHEMAS[type.endpoint];
+  return shape ? numericColumns(shape) : [];
+}
+
+// Scores and their contributors run 0-100 and share Oura's score bands
+export function isScoreField(field: string): boolean {
+  return field === "score" || field.startsWith("contributors.");
+}
+
+/**
+ * Parse a streak condition such as ">=85" or "< 30"
+ */
+export function parseStreakCondition(text: string): StreakCondition {
+  const match = text.trim().match(/^(>=|>|<=|<)\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) {
+    throw new Error(`Invalid streak condition '${text}'. Use an operator and a number, e.g. '>=85' or '<30'.`);
+  }
+  return { operator: match[1] as StreakCondition["operator"], threshold: Number(match[2]) };
+}
+
+export function formatStreakCondition(condition: StreakCondition): string {
+  return `${condition.operator} ${condition.threshold}`;
+}
+
+/**
+ * A numeric field's value on each day that has one, in date order
+ */
+export function dailyValues(type: DataType, documents: unknown[], field: string): DayValue[] {
+  const values = new Map<string, number[]>();
+  for (const document of documents) {
+    const day = type.dateKey(document);
+    const value = fieldValue(document, field);
+    if (day && typeof value === "number" && Number.isFinite(value)) {
+      values.set(day, [...(values.get(day) ?? []), value]);
+    }
+  }
+  return [...values.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, dayValues]) => ({ day, value: mean(dayValues)! }));
+}
+
+/**
+ * Rolling, weekly and overall statistics of a daily series, with streaks of
+ * consecutive days meeting `streak` when it's given
+ */
+export function computeStats(
+  series: DayValue[],
+  options: { type: DataType; metric: string; window: number; streak?: StreakCondition }
+): MetricStats {
+  const values = series.map((point) => point.value);
+  const sorted = [...values].sort((a, b) => a - b);
+
+  const first = series[0]?.day;
+  const slope = linearSlope(series.map(({ day, value }) => ({ x: daysBetween(first, day), y: value })));
+
+  return {
+    type: options.type.key,
+    metric: options.metric,
+    window_days: options.window,
+    start: first ?? null,
+    end: series.at(-1)?.day ?? null,
+    count: series.length,
+    mean: round(mean(values), 2),
+    std_dev: round(stdDev(values), 2),
+    min: sorted[0] ?? null,
+    max: sorted.at(-1) ?? null,
+    percentiles: Object.fromEntries(PERCENTILES.map((p) => [`p${p}`, round(percentile(sorted, p), 2)])),
+    trend: {
+      slope_per_day: round(slope, 3),
+      slope_per_week: round(slope === null ? null : slope * 7, 2),
+    },
+    streak: options.streak
+      ? { condition: formatStreakCondition(options.streak), ...findStreaks(series, options.streak) }
+      : null,
+    weeks: weeklyStats(series),
+    days: rollingStats(series, options.window),
+  };
+}
+
+// Mean and standard deviation over the `window` calendar days ending on each
+// day, counting only days with data
+function rollingStats(series: DayValue[], window: number): DayStats[] {
+  let from = 0;
+  return series.map(({ day, value }, i) => {
+    const windowStart = addDays(day, -(window - 1));
+    while (series[from].day < windowStart) {
+      from++;
+    }
+    const inWindow = series.slice(from, i + 1).map((point) => point.value);
+    return {
+      day,
+      value: round(value, 2)!,
+      rolling_mean: round(mean(inWindow), 2),
+      rolling_std_dev: round(stdDev(inWindow), 2),
+    };
+  });
+}
+
+function weeklyStats(series: DayValue[]): WeekStats[] {
+  // Weeks keep the first day they have data for, to find the week before
+  const weeks = new Map<string, { day: string; values: number[] }>();
+  for (const { day, value } of series) {
+    const week = formatIsoWeek(day);
+    const entry = weeks.get(week) ?? { day, values: [] };
+    entry.values.push(value);
+    weeks.set(week, entry);
+  }
+
+  const means = new Map([...weeks].map(([week, { values }]) => [week, mean(values)]));
+  return [...weeks].map(([week, { day, values }]) => {
+    const average = means.get(week)!;
+    const before = means.get(formatIsoWeek(addDays(day, -7)));
+    return {
+      week,
+      days: values.length,
+      mean: round(average, 2),
+      delta: average !== null && before != null ? round(average - before, 2) : null,
+    };
+  });
+}
+
+// Runs of consecutive calendar days meeting the condition; a day without
+// data ends a run
+function findStreaks(series: DayValue[], condition: StreakCondition): { longest: Streak | null; current: Streak | null } {
+  const meets = (value: number) => STREAK_OPERATORS[condition.operator](value, condition.threshold);
+  const runs: Streak[] = [];
+  for (const { day, value } of series) {
+    if (!meets(value)) continue;
+    const run = runs.at(-1);
+    if (run && addDays(run.end, 1) === day) {
+      run.days++;
+      run.end = day;
+    } else {
+      runs.push({ days: 1, start: day, end: day });
+    }
+  }
+
+  const longest = runs.reduce<Streak | null>((best, run) => (!best || run.days > best.days ? run : best), null);
+  // The last run only counts as current if it reaches the last day with data
+  const last = runs.at(-1);
+  const current = last && last.end === series.at(-1)?.day ? last : null;
+  return { longest, current };
+}
+
+function fieldValue(document: unknown, field: string): unknown {
+  return field
+    .split(".")
+    .reduce<unknown>(
+      (value, key) => (typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+      document
+    );
+}
+
+function daysBetween(start: string, end: string): number {
+  return (Date.parse(end) - Date.parse(start)) / 86400000;
+}
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Store } from "./store";
+
+let dir: string;
+let store: Store;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "oura-store-"));
+  store = await Store.open(path.join(dir, "cache.sqlite"));
+});
+
+afterEach(async () => {
+  store.close();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("Store", () => {
+  test("replaces documents with the same id and reads a day range back", () => {
+    store.upsert("daily_sleep", [
+      { id: "a", day: "2024-01-05", score: 70 },
+      { id: "b", day: "2024-01-06", score: 80 },
+    ]);
+    store.upsert("daily_sleep", [{ id: "a", day: "2024-01-05", score: 75 }]);
+
+    expect(store.query("daily_sleep").data).toEqual([
+      { id: "a", day: "2024-01-05", score: 75 },
+      { id: "b", day: "2024-01-06", score: 80 },
+    ]);
+    expect(store.query("daily_sleep", "2024-01-06").data).toEqual([{ id: "b", day: "2024-01-06", score: 80 }]);
+    expect(store.get<unknown>("daily_sleep", "a")).toEqual({ id: "a", day: "2024-01-05", score: 75 });
+  });
+
+  test("keys documents without an id by day", () => {
+    store.upsert("daily_cardiovascular_age", [{ day: "2024-01-05", vascular_age: 30 }]);
+    store.upsert("daily_cardiovascular_age", [{ day: "2024-01-05", vascular_age: 31 }]);
+    expect(store.query("daily_cardiovascular_age").data).toEqual([{ day: "2024-01-05", vascular_age: 31 }]);
+  });
+
+  test("tracks the first cached and last synced day", () => {
+    expect(store.getFirstCachedDay("daily_sleep")).toBeNull();
+    expect(store.getLastSyncedDay("daily_sleep")).toBeNull();
+
+    store.upsert("daily_sleep", [
+      { id: "b", day: "2024-01-06" },
+      { id: "a", day: "2024-01-02" },
+    ]);
+    store.setLastSyncedDay("daily_sleep", "2024-01-07");
+
+    expect(store.getFirstCachedDay("daily_sleep")).toBe("2024-01-02");
+    expect(store.getLastSyncedDay("daily_sleep")).toBe("2024-01-07");
+  });
+});
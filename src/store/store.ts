@@ -0,0 +1,180 @@
+import { Database } from "bun:sqlite";
+import { join, dirname } from "path";
+import { mkdirSync, existsSync } from "fs";
+import { rm } from "fs/promises";
+import { getConfigDir, getActiveProfile } from "../config/config";
+import { isSandboxMode } from "../api/client";
+import { COLLECTION_DATA_TYPES, getDataTypeByEndpoint, type DataType } from "../api/registry";
+import type { ListResponse } from "../api/types";
+
+// Each profile gets its own cache so different accounts never mix, and
+// sandbox data is kept apart from the real account's
+export async function getStorePath(profile?: string, sandbox = isSandboxMode()): Promise<string> {
+  const name = profile ?? (await getActiveProfile());
+  return join(getConfigDir(), "cache", `${name}${sandbox ? ".sandbox" : ""}.sqlite`);
+}
+
+/**
+ * Delete a profile's caches, including SQLite's WAL side files
+ */
+export async function removeStore(profile: string): Promise<void> {
+  for (const sandbox of [false, true]) {
+    const path = await getStorePath(profile, sandbox);
+    for (const suffix of ["", "-wal", "-shm"]) {
+      await rm(path + suffix, { force: true });
+    }
+  }
+}
+
+/**
+ * Local SQLite cache of synced API documents, used by `oura sync` and the
+ * `--offline` flag of `oura get`.
+ */
+export class Store {
+  private db: Database;
+
+  private constructor(db: Database) {
+    this.db = db;
+  }
+
+  static async open(path?: string): Promise<Store> {
+    path ??= await getStorePath();
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const db = new Database(path, { create: true });
+    db.exec("PRAGMA journal_mode = WAL;");
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_state (
+        endpoint TEXT PRIMARY KEY,
+        last_day TEXT NOT NULL,
+        synced_at TEXT NOT NULL
+      );
+    `);
+
+    // One table per collection endpoint, named after it
+    for (const { endpoint } of COLLECTION_DATA_TYPES) {
+      const table = quoteIdentifier(endpoint);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          id TEXT PRIMARY KEY,
+          day TEXT,
+          data TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${endpoint}_day`)} ON ${table} (day);
+      `);
+    }
+
+    return new Store(db);
+  }
+
+  /**
+   * Insert or replace documents for an endpoint in a single transaction
+   */
+  upsert(endpoint: string, items: unknown[]): void {
+    const type = this.dataTypeFor(endpoint);
+    const table = quoteIdentifier(endpoint);
+    const statement = this.db.prepare(
+      `INSERT OR REPLACE INTO ${table} (id, day, data, updated_at) VALUES (?, ?, ?, ?)`
+    );
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      for (const item of items) {
+        statement.run(documentKey(item), type.dateKey(item), JSON.stringify(item), now);
+      }
+    })();
+  }
+
+  /**
+   * Delete a cached document, e.g. after a webhook reports it was removed
+   */
+  remove(endpoint: string, id: string): void {
+    const table = this.tableFor(endpoint);
+    this.db.query(`DELETE FROM ${table} WHERE id = ?`).run(id);
+  }
+
+  /**
+   * Read cached documents for an endpoint, optionally limited to a day range
+   */
+  query<T>(endpoint: string, start?: string, end?: string): ListResponse<T> {
+    const table = this.tableFor(endpoint);
+    const rows = this.db
+      .query(
+        `SELECT data FROM ${table}
+         WHERE (?1 IS NULL OR day >= ?1) AND (?2 IS NULL OR day <= ?2)
+         ORDER BY day, id`
+      )
+      .all(start ?? null, end ?? null) as Array<{ data: string }>;
+
+    return { data: rows.map((row) => JSON.parse(row.data) as T), next_token: null };
+  }
+
+  /**
+   * Read a single cached document by its id, or null if it isn't cached
+   */
+  get<T>(endpoint: string, id: string): T | null {
+    const table = this.tableFor(endpoint);
+    const row = this.db
+      .query(`SELECT data FROM ${table} WHERE id = ?`)
+      .get(id) as { data: string } | null;
+    return row ? (JSON.parse(row.data) as T) : null;
+  }
+
+  /**
+   * Earliest day with a cached document for an endpoint, or null if none is cached
+   */
+  getFirstCachedDay(endpoint: string): string | null {
+    const table = this.tableFor(endpoint);
+    const row = this.db
+      .query(`SELECT MIN(day) AS first_day FROM ${table}`)
+      .get() as { first_day: string | null } | null;
+    return row?.first_day ?? null;
+  }
+
+  getLastSyncedDay(endpoint: string): string | null {
+    const row = this.db
+      .query("SELECT last_day FROM sync_state WHERE endpoint = ?")
+      .get(endpoint) as { last_day: string } | null;
+    return row?.last_day ?? null;
+  }
+
+  setLastSyncedDay(endpoint: string, day: string): void {
+    this.db
+      .query(
+        "INSERT OR REPLACE INTO sync_state (endpoint, last_day, synced_at) VALUES (?, ?, ?)"
+      )
+      .run(endpoint, day, new Date().toISOString());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private tableFor(endpoint: string): string {
+    this.dataTypeFor(endpoint);
+    return quoteIdentifier(endpoint);
+  }
+
+  private dataTypeFor(endpoint: string): DataType {
+    const type = getDataTypeByEndpoint(endpoint);
+    if (!type?.dateParams) {
+      throw new Error(`No cache table for endpoint '${endpoint}'`);
+    }
+    return type;
+  }
+}
+
+// Heart rate samples and cardiovascular age carry no id, so they are keyed
+// by timestamp or day instead
+function documentKey(item: unknown): string {
+  const { id, timestamp, day } = (item ?? {}) as { id?: string; timestamp?: string; day?: string };
+  return id ?? timestamp ?? day ?? "";
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
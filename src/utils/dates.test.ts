@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from "bun:test";
+import {
+  addDays,
+  formatIsoWeek,
+  getToday,
+  resolveDateRange,
+  resolveDateTimeRange,
+  setTimezone,
+  splitDayRange,
+  validateDateSpec,
+  zonedDateTime,
+} from "./dates";
+
+// Wednesday 2024-03-13, midday in UTC
+const NOW = new Date("2024-03-13T12:00:00Z");
+
+beforeEach(() => {
+  setSystemTime(NOW);
+  setTimezone("UTC");
+});
+
+afterEach(() => {
+  setSystemTime();
+  setTimezone(undefined);
+});
+
+describe("addDays", () => {
+  test("crosses month, year and leap day boundaries", () => {
+    expect(addDays("2024-01-31", 1)).toBe("2024-02-01");
+    expect(addDays("2024-03-01", -1)).toBe("2024-02-29");
+    expect(addDays("2023-12-31", 1)).toBe("2024-01-01");
+  });
+});
+
+describe("formatIsoWeek", () => {
+  test("assigns a week to the year of its Thursday", () => {
+    expect(formatIsoWeek("2024-01-29")).toBe("2024-W05");
+    expect(formatIsoWeek("2021-01-03")).toBe("2020-W53");
+    expect(formatIsoWeek("2024-12-30")).toBe("2025-W01");
+  });
+});
+
+describe("splitDayRange", () => {
+  test("splits an inclusive range into chunks, the last one shorter", () => {
+    expect(splitDayRange("2024-01-01", "2024-01-10", 4)).toEqual([
+      { start: "2024-01-01", end: "2024-01-04" },
+      { start: "2024-01-05", end: "2024-01-08" },
+      { start: "2024-01-09", end: "2024-01-10" },
+    ]);
+    expect(splitDayRange("2024-01-01", "2024-01-01", 30)).toEqual([{ start: "2024-01-01", end: "2024-01-01" }]);
+  });
+});
+
+describe("resolveDateRange", () => {
+  test("resolves relative days", () => {
+    expect(resolveDateRange("yesterday", "today")).toEqual({ start: "2024-03-12", end: "2024-03-13" });
+    expect(resolveDateRange("-7d")).toEqual({ start: "2024-03-06", end: undefined });
+    expect(resolveDateRange("-2w")).toEqual({ start: "2024-02-28", end: undefined });
+  });
+
+  test("lets a week or month given as the start set the end too", () => {
+    expect(resolveDateRange("last-week")).toEqual({ start: "2024-03-04", end: "2024-03-10" });
+    expect(resolveDateRange("this-month")).toEqual({ start: "2024-03-01", end: "2024-03-31" });
+    expect(resolveDateRange("last-month")).toEqual({ start: "2024-02-01", end: "2024-02-29" });
+    expect(resolveDateRange("2024-W05")).toEqual({ start: "2024-01-29", end: "2024-02-04" });
+    expect(resolveDateRange("2024-W05", "2024-02-10")).toEqual({ start: "2024-01-29", end: "2024-02-10" });
+  });
+
+  test("rejects invalid dates and reversed ranges", () => {
+    expect(() => resolveDateRange("2024-02-30")).toThrow("Invalid date '2024-02-30'");
+    expect(() => resolveDateRange("2023-W53")).toThrow("Invalid date");
+    expect(() => resolveDateRange("2024-03-10", "2024-03-01")).toThrow("Start date 2024-03-10 is after end date 2024-03-01.");
+  });
+
+  test("follows the configured timezone for today", () => {
+    setSystemTime(new Date("2024-03-13T23:30:00Z"));
+    expect(getToday()).toBe("2024-03-13");
+    setTimezone("Asia/Tokyo");
+    expect(getToday()).toBe("2024-03-14");
+  });
+});
+
+describe("resolveDateTimeRange", () => {
+  test("covers whole local days for date specs", () => {
+    setTimezone("Europe/Berlin");
+    expect(resolveDateTimeRange("2024-01-05", "2024-01-05")).toEqual({
+      start: "2024-01-05T00:00:00+01:00",
+      end: "2024-01-06T00:00:00+01:00",
+    });
+  });
+
+  test("keeps explicit datetimes and offsets", () => {
+    expect(resolveDateTimeRange("2024-01-05T08:30", "2024-01-05T11:00:15+0200")).toEqual({
+      start: "2024-01-05T08:30:00+00:00",
+      end: "2024-01-05T11:00:15+02:00",
+    });
+    expect(() => resolveDateTimeRange("2024-01-05T25:00")).toThrow("Invalid datetime");
+    expect(() => resolveDateTimeRange("2024-01-05T10:00", "2024-01-05T09:00")).toThrow("is not before");
+  });
+});
+
+describe("zonedDateTime", () => {
+  test("uses the offset in effect on that day", () => {
+    expect(zonedDateTime("2024-01-15", "00:00:00", "America/New_York")).toBe("2024-01-15T00:00:00-05:00");
+    expect(zonedDateTime("2024-07-15", "00:00:00", "America/New_York")).toBe("2024-07-15T00:00:00-04:00");
+    expect(zonedDateTime("2024-07-15", "12:00:00", "Asia/Kolkata")).toBe("2024-07-15T12:00:00+05:30");
+  });
+});
+
+describe("validateDateSpec", () => {
+  test("checks a spec against the other end of the range", () => {
+    expect(validateDateSpec("2024-03-01")).toBe(true);
+    expect(validateDateSpec("soon")).toContain("Invalid date 'soon'");
+    expect(validateDateSpec("2024-03-01", "2024-03-05")).toContain("is after end date");
+  });
+});
@@ -0,0 +1,274 @@
+// Date helpers shared by the commands
+
+export interface DateRange {
+  start?: string;
+  end?: string;
+}
+
+// What --start/--end accept, for option descriptions
+export const DATE_SPEC_FORMATS = "YYYY-MM-DD, today, yesterday, -7d, last-week, this-month, 2024-W05";
+
+// Timezone chosen with --tz for this process, if any
+let timezoneOverride: string | undefined;
+
+/**
+ * Set the timezone relative dates such as "today" are resolved in, for the
+ * rest of the process
+ */
+export function setTimezone(zone: string | undefined): void {
+  if (zone !== undefined) {
+    validateTimezone(zone);
+  }
+  timezoneOverride = zone;
+}
+
+/**
+ * Resolve the timezone: --tz, then OURA_TZ, then the system timezone
+ */
+export function getTimezone(): string {
+  const zone = timezoneOverride || process.env.OURA_TZ;
+  if (zone) {
+    validateTimezone(zone);
+    return zone;
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Format a Date as YYYY-MM-DD in the configured timezone
+ */
+export function formatDay(date: Date, timeZone = getTimezone()): string {
+  const { year, month, day } = zonedParts(date.getTime(), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * The current day in the configured timezone
+ */
+export function getToday(): string {
+  return formatDay(new Date());
+}
+
+/**
+ * Shift a YYYY-MM-DD day by a number of calendar days
+ */
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().split("T")[0];
+}
+
+/**
+ * The ISO week a day falls in, e.g. 2024-W05
+ */
+export function formatIsoWeek(day: string): string {
+  // The week belongs to the year its Thursday falls in
+  const thursday = addDays(startOfWeek(day), 3);
+  const year = thursday.slice(0, 4);
+  const week = Math.floor((Date.parse(thursday) - Date.parse(`${year}-01-01`)) / (7 * 86400000)) + 1;
+  return `${year}-W${pad(week)}`;
+}
+
+/**
+ * Split an inclusive YYYY-MM-DD range into consecutive chunks of at most
+ * `size` days
+ */
+export function splitDayRange(start: string, end: string, size: number): Array<{ start: string; end: string }> {
+  const chunks: Array<{ start: string; end: string }> = [];
+  for (let chunkStart = start; chunkStart <= end; chunkStart = addDays(chunkStart, size)) {
+    const chunkEnd = addDays(chunkStart, size - 1);
+    chunks.push({ start: chunkStart, end: chunkEnd < end ? chunkEnd : end });
+  }
+  return chunks;
+}
+
+/**
+ * Resolve --start/--end specs (see DATE_SPEC_FORMATS) to YYYY-MM-DD days. A
+ * week or month given as the start alone also sets the end, so
+ * `--start last-week` covers the whole week. Throws on invalid dates and on
+ * ranges that end before they start.
+ */
+export function resolveDateRange(start?: string, end?: string): DateRange {
+  const from = start ? parseDateSpec(start) : undefined;
+  const to = end ? parseDateSpec(end) : undefined;
+
+  const range: DateRange = {
+    start: from?.start,
+    end: to?.end ?? (from?.period ? from.end : undefined),
+  };
+  if (range.start && range.end && range.start > range.end) {
+    throw new Error(`Start date ${range.start} is after end date ${range.end}.`);
+  }
+  return range;
+}
+
+/**
+ * Resolve the bounds of a datetime-ranged endpoint such as heart rate to ISO
+ * 8601 datetimes with an offset. Bounds can be datetimes (YYYY-MM-DDTHH:MM,
+ * with optional seconds and offset; local time if there is no offset) or any
+ * date spec, which covers whole local days: the start from midnight, the end
+ * up to midnight of the next day.
+ */
+export function resolveDateTimeRange(start?: string, end?: string): DateRange {
+  const days = resolveDateRange(isDateTime(start) ? undefined : start, isDateTime(end) ? undefined : end);
+  const range: DateRange = {
+    start: isDateTime(start) ? parseDateTime(start!) : days.start ? zonedDateTime(days.start) : undefined,
+    end: isDateTime(end) ? parseDateTime(end!) : days.end ? zonedDateTime(addDays(days.end, 1)) : undefined,
+  };
+  if (range.start && range.end && Date.parse(range.start) >= Date.parse(range.end)) {
+    throw new Error(`Start time ${range.start} is not before end time ${range.end}.`);
+  }
+  return range;
+}
+
+/**
+ * ISO 8601 datetime with the UTC offset of a wall-clock time on a day in the
+ * configured timezone, e.g. 2024-01-05T00:00:00+01:00
+ */
+export function zonedDateTime(day: string, time = "00:00:00", timeZone = getTimezone()): string {
+  const wallClock = Date.parse(`${day}T${time}Z`);
+  // The offset depends on the instant (daylight saving time), which depends
+  // on the offset; a second pass settles it
+  let offset = getUtcOffset(wallClock, timeZone);
+  offset = getUtcOffset(wallClock - offset, timeZone);
+
+  const minutes = Math.abs(offset) / 60000;
+  return `${day}T${time}${offset < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Prompt validator for a date spec, checked against the other end of the
+ * range if it's known
+ */
+export function validateDateSpec(value: string, start?: string, end?: string): string | true {
+  try {
+    resolveDateRange(start ?? value, start ? value : end);
+    return true;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// A spec resolves to a span of days; single-day specs start and end on the
+// same day
+function parseDateSpec(spec: string): { start: string; end: string; period: boolean } {
+  const value = spec.trim().toLowerCase();
+  const today = getToday();
+  const day = (date: string) => ({ start: date, end: date, period: false });
+
+  if (value === "today") {
+    return day(today);
+  }
+  if (value === "yesterday") {
+    return day(addDays(today, -1));
+  }
+
+  const relative = value.match(/^-(\d+)([dw])$/);
+  if (relative) {
+    const count = Number(relative[1]) * (relative[2] === "w" ? 7 : 1);
+    return day(addDays(today, -count));
+  }
+
+  const period = value.match(/^(this|last)-(week|month)$/);
+  if (period) {
+    const [, which, unit] = period;
+    let start = unit === "week" ? startOfWeek(today) : `${today.slice(0, 7)}-01`;
+    if (which === "last") {
+      start = unit === "week" ? addDays(start, -7) : `${addDays(start, -1).slice(0, 7)}-01`;
+    }
+    return { start, end: unit === "week" ? addDays(start, 6) : endOfMonth(start), period: true };
+  }
+
+  const week = value.match(/^(\d{4})-w(\d{2})$/);
+  if (week) {
+    const start = isoWeekStart(Number(week[1]), Number(week[2]));
+    if (start) {
+      return { start, end: addDays(start, 6), period: true };
+    }
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && addDays(value, 0) === value) {
+    return day(value);
+  }
+
+  throw new Error(`Invalid date '${spec}'. Use ${DATE_SPEC_FORMATS.replace(/, (?=[^,]*$)/, " or ")}.`);
+}
+
+// Monday of the ISO week containing a day
+function startOfWeek(day: string): string {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return addDays(day, -((weekday + 6) % 7));
+}
+
+function endOfMonth(day: string): string {
+  const [year, month] = day.split("-").map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().split("T")[0];
+}
+
+// Monday of ISO week `week` of `year`, or null if the year has no such week.
+// Week 1 is the week containing January 4th.
+function isoWeekStart(year: number, week: number): string | null {
+  if (week < 1) {
+    return null;
+  }
+  const start = addDays(startOfWeek(`${year}-01-04`), (week - 1) * 7);
+  // The week belongs to the year its Thursday falls in
+  return addDays(start, 3).startsWith(`${year}-`) ? start : null;
+}
+
+function isDateTime(spec: string | undefined): boolean {
+  return spec !== undefined && /^\d{4}-\d{2}-\d{2}T/i.test(spec.trim());
+}
+
+function parseDateTime(spec: string): string {
+  const match = spec.trim().match(/^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(Z|[+-]\d{2}:?\d{2})?$/i);
+  const [, day, hours, minutes, seconds = "00", offset] = match ?? [];
+  if (!match || addDays(day, 0) !== day || Number(hours) > 23 || Number(minutes) > 59 || Number(seconds) > 59) {
+    throw new Error(`Invalid datetime '${spec}'. Use YYYY-MM-DDTHH:MM, optionally with seconds and an offset.`);
+  }
+
+  const time = `${hours}:${minutes}:${seconds}`;
+  return offset
+    ? `${day}T${time}${offset.toUpperCase().replace(/^([+-]\d{2})(\d{2})$/, "$1:$2")}`
+    : zonedDateTime(day, time);
+}
+
+// Calendar fields of an instant in a timezone
+function zonedParts(instant: number, timeZone: string): Record<"year" | "month" | "day" | "hour" | "minute" | "second", number> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+// Milliseconds a timezone is ahead of UTC at an instant
+function getUtcOffset(instant: number, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = zonedParts(instant, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - (instant - (instant % 1000));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function validateTimezone(zone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+  } catch {
+    throw new Error(`Unknown timezone '${zone}'. Use an IANA name such as 'Europe/Berlin'.`);
+  }
+}